@@ -150,10 +150,182 @@ declare namespace monaco.languages.typescript {
 		onlyVisible?: boolean;
 		diagnosticCodesToIgnore?: number[];
 	}
+	export interface CompletionOptions {
+		/**
+		 * Suggest the exports of other modules, which add the missing import when accepted.
+		 * Defaults to false.
+		 */
+		includeCompletionsForModuleExports?: boolean;
+		/**
+		 * Suggest the exports of other modules while typing an import statement.
+		 * Defaults to false.
+		 */
+		includeCompletionsForImportStatements?: boolean;
+		/**
+		 * Allow completions which insert text different from their name, e.g. `?.` or `["key"]`.
+		 * Defaults to false.
+		 */
+		includeCompletionsWithInsertText?: boolean;
+		/**
+		 * Suggest the members of possibly undefined values, inserting optional chaining.
+		 * Requires `includeCompletionsWithInsertText`. Defaults to false.
+		 */
+		includeAutomaticOptionalChainCompletions?: boolean;
+		/**
+		 * Allow completions which are inserted as snippets, e.g. for import statements.
+		 * Defaults to false.
+		 */
+		includeCompletionsWithSnippetText?: boolean;
+		/**
+		 * Complete functions and methods with a snippet of their required parameters,
+		 * like `foo(${1:a}, ${2:b})`. Defaults to false.
+		 */
+		completeFunctionCalls?: boolean;
+		/**
+		 * The quotes used for the module specifier of added imports.
+		 */
+		quotePreference?: 'auto' | 'double' | 'single';
+		/**
+		 * How the module specifier of added imports is computed.
+		 */
+		importModuleSpecifierPreference?: 'shortest' | 'project-relative' | 'relative' | 'non-relative';
+		/**
+		 * Whether the module specifier of added imports ends with `/index` or a file extension.
+		 */
+		importModuleSpecifierEnding?: 'auto' | 'minimal' | 'index' | 'js';
+	}
+	/**
+	 * Options of the TypeScript formatter, see `typescript.FormatCodeSettings`. Indentation
+	 * options which are not set are taken from the options of the model.
+	 */
+	export interface FormatOptions {
+		baseIndentSize?: number;
+		indentSize?: number;
+		tabSize?: number;
+		newLineCharacter?: string;
+		convertTabsToSpaces?: boolean;
+		trimTrailingWhitespace?: boolean;
+		insertSpaceAfterCommaDelimiter?: boolean;
+		insertSpaceAfterSemicolonInForStatements?: boolean;
+		insertSpaceBeforeAndAfterBinaryOperators?: boolean;
+		insertSpaceAfterConstructor?: boolean;
+		insertSpaceAfterKeywordsInControlFlowStatements?: boolean;
+		insertSpaceAfterFunctionKeywordForAnonymousFunctions?: boolean;
+		insertSpaceAfterOpeningAndBeforeClosingNonemptyParenthesis?: boolean;
+		insertSpaceAfterOpeningAndBeforeClosingNonemptyBrackets?: boolean;
+		insertSpaceAfterOpeningAndBeforeClosingNonemptyBraces?: boolean;
+		insertSpaceAfterOpeningAndBeforeClosingEmptyBraces?: boolean;
+		insertSpaceAfterOpeningAndBeforeClosingTemplateStringBraces?: boolean;
+		insertSpaceAfterOpeningAndBeforeClosingJsxExpressionBraces?: boolean;
+		insertSpaceAfterTypeAssertion?: boolean;
+		insertSpaceBeforeFunctionParenthesis?: boolean;
+		placeOpenBraceOnNewLineForFunctions?: boolean;
+		placeOpenBraceOnNewLineForControlBlocks?: boolean;
+		insertSpaceBeforeTypeAnnotation?: boolean;
+		indentMultiLineObjectLiteralBeginningOnBlankLine?: boolean;
+		/**
+		 * Whether semicolons at the end of statements are added or removed. Defaults to 'ignore'.
+		 */
+		semicolons?: 'ignore' | 'insert' | 'remove';
+	}
+	export interface EntityInfo {
+		name: string;
+		/**
+		 * The icon of the completion item. Defaults to `languages.CompletionItemKind.Value`.
+		 */
+		kind?: languages.CompletionItemKind;
+		/**
+		 * Shown next to the name, e.g. the template of a thing.
+		 */
+		detail?: string;
+	}
+	export interface EntityNameProvider {
+		/**
+		 * Get the entities of a collection, e.g. all things for `Things`.
+		 */
+		provideEntities(collection: string): EntityInfo[] | Promise<EntityInfo[]>;
+		/**
+		 * Get the markdown documentation of an entity once its completion item is selected.
+		 */
+		resolveDocumentation?(
+			collection: string,
+			name: string
+		): string | undefined | Promise<string | undefined>;
+	}
+	export interface EntityOptions {
+		/**
+		 * The names of the known entities per collection object, e.g. `{ Things: ['MyThing'] }`.
+		 * References to other entities of these collections are reported with code 100001,
+		 * together with a quick fix which replaces them with the closest known names.
+		 */
+		knownEntityNames?: {
+			[collection: string]: string[];
+		};
+		/**
+		 * Maps the source text of keys which can't be evaluated statically to the entity they
+		 * stand for, per collection. Defaults to `{ Users: { principal: 'System' } }`.
+		 */
+		keyRules?: {
+			[collection: string]: {
+				[keyExpression: string]: string;
+			};
+		};
+		/**
+		 * The providers of the entity names which are suggested after `Things.` or within
+		 * `Things["`, per collection object.
+		 */
+		entityNameProviders?: {
+			[collection: string]: EntityNameProvider;
+		};
+	}
+	export interface CodeLensOptions {
+		/**
+		 * Show the number of references above functions, classes, interfaces, type aliases,
+		 * enums, exported variables and class or interface members. Defaults to false.
+		 */
+		referencesCodeLens?: boolean;
+		/**
+		 * Show the number of implementations above interfaces, abstract classes and their members.
+		 * Defaults to false.
+		 */
+		implementationsCodeLens?: boolean;
+	}
+	export interface SemanticTokensOptions {
+		/**
+		 * Provide semantic tokens, which tell apart e.g. classes, parameters, readonly members
+		 * and deprecated symbols. Defaults to true.
+		 */
+		enabled?: boolean;
+	}
+	export interface OutlineOptions {
+		/**
+		 * Build the outline from the classes, functions and object literals with methods of a script,
+		 * instead of the navigation tree. Entries which belong to the entities of the collections
+		 * configured in the entity options show that entity as detail. Defaults to false.
+		 */
+		useCodeOutline?: boolean;
+	}
 	export interface WorkerOptions {
 		/** A full HTTP path to a JavaScript file which adds a function `customTSWorkerFactory` to the self inside a web-worker */
 		customWorkerPath?: string;
 	}
+	/**
+	 * Callbacks used to carry out file operations which are part of a rename or a code action,
+	 * since the standalone editor is only able to apply text edits to existing models.
+	 */
+	export interface FileOperationsHost {
+		/**
+		 * Create a new file with the given content, e.g. for a "Move to a new file" refactoring.
+		 * The host is expected to create a model for the new file.
+		 */
+		createFile(uri: Uri, content: string): void | Promise<void>;
+		/**
+		 * Rename an existing file, e.g. when renaming the path of an import.
+		 * The host is expected to move the model of the file to the new uri. It is called once
+		 * the updated imports are applied, including those within the file itself.
+		 */
+		renameFile(oldUri: Uri, newUri: Uri): void | Promise<void>;
+	}
 	interface IExtraLib {
 		content: string;
 		version: number;
@@ -204,9 +376,15 @@ declare namespace monaco.languages.typescript {
 	}
 	export interface LanguageServiceDefaults {
 		/**
-		 * Event fired when compiler options or diagnostics options are changed.
+		 * Event fired when any of the options is changed, e.g. the compiler, diagnostics or format options.
+		 * The worker is only restarted when the compiler or worker options are changed.
 		 */
 		readonly onDidChange: IEvent<void>;
+		/**
+		 * Event fired along with `onDidChange` when options which are only used on the main thread
+		 * are changed, i.e. the completion, format, entity, code lens, semantic tokens and outline options.
+		 */
+		readonly onDidProviderOptionsChange: IEvent<void>;
 		/**
 		 * Event fired when extra libraries registered with the language service change.
 		 */
@@ -256,6 +434,56 @@ declare namespace monaco.languages.typescript {
 		 * be performed
 		 */
 		setDiagnosticsOptions(options: DiagnosticsOptions): void;
+		/**
+		 * Get the current completion options for the language service.
+		 */
+		getCompletionOptions(): CompletionOptions;
+		/**
+		 * Configure which completions are suggested and how accepting them adds imports.
+		 */
+		setCompletionOptions(options: CompletionOptions): void;
+		/**
+		 * Get the current formatting options for the language service.
+		 */
+		getFormatOptions(): FormatOptions;
+		/**
+		 * Configure the formatting options, which are used for formatting as well as for the
+		 * code inserted by code actions, refactorings and completions.
+		 */
+		setFormatOptions(options: FormatOptions): void;
+		/**
+		 * Get the current options about the platform entities referenced by scripts.
+		 */
+		getEntityOptions(): EntityOptions;
+		/**
+		 * Configure the known platform entities, which are validated by the diagnostics,
+		 * and the providers of the entity names which are suggested.
+		 */
+		setEntityOptions(options: EntityOptions): void;
+		/**
+		 * Get the current code lens options for the language service.
+		 */
+		getCodeLensOptions(): CodeLensOptions;
+		/**
+		 * Configure which code lenses are shown.
+		 */
+		setCodeLensOptions(options: CodeLensOptions): void;
+		/**
+		 * Get the current semantic tokens options for the language service.
+		 */
+		getSemanticTokensOptions(): SemanticTokensOptions;
+		/**
+		 * Configure whether semantic tokens are provided.
+		 */
+		setSemanticTokensOptions(options: SemanticTokensOptions): void;
+		/**
+		 * Get the current outline options for the language service.
+		 */
+		getOutlineOptions(): OutlineOptions;
+		/**
+		 * Configure how the outline is built.
+		 */
+		setOutlineOptions(options: OutlineOptions): void;
 		/**
 		 * Configure webworker options
 		 */
@@ -274,6 +502,15 @@ declare namespace monaco.languages.typescript {
 		 * to the worker on start or restart.
 		 */
 		getEagerModelSync(): boolean;
+		/**
+		 * Get the host used to create and rename files, if any.
+		 */
+		getFileOperationsHost(): FileOperationsHost | undefined;
+		/**
+		 * Configure the host used to create and rename files. Without one, renaming
+		 * import paths and code actions which create new files are not offered.
+		 */
+		setFileOperationsHost(host: FileOperationsHost | undefined): void;
 	}
 	export interface TypeScriptWorker {
 		/**
@@ -299,17 +536,30 @@ declare namespace monaco.languages.typescript {
 		getCompilerOptionsDiagnostics(fileName: string): Promise<Diagnostic[]>;
 		/**
 		 * Get code completions for the given file and position.
+		 * @param preferences `typescript.GetCompletionsAtPositionOptions`
 		 * @returns `Promise<typescript.CompletionInfo | undefined>`
 		 */
-		getCompletionsAtPosition(fileName: string, position: number): Promise<any | undefined>;
+		getCompletionsAtPosition(
+			fileName: string,
+			position: number,
+			preferences?: any
+		): Promise<any | undefined>;
 		/**
 		 * Get code completion details for the given file, position, and entry.
+		 * @param formatOptions `typescript.FormatCodeSettings`
+		 * @param source `typescript.CompletionEntry.source`
+		 * @param preferences `typescript.UserPreferences`
+		 * @param data `typescript.CompletionEntry.data`
 		 * @returns `Promise<typescript.CompletionEntryDetails | undefined>`
 		 */
 		getCompletionEntryDetails(
 			fileName: string,
 			position: number,
-			entry: string
+			entry: string,
+			formatOptions?: any,
+			source?: string,
+			preferences?: any,
+			data?: any
 		): Promise<any | undefined>;
 		/**
 		 * Get signature help items for the item at the given file and position.
@@ -341,25 +591,102 @@ declare namespace monaco.languages.typescript {
 			fileName: string,
 			position: number
 		): Promise<ReadonlyArray<any> | undefined>;
+		/**
+		 * Get the definition of the type of the item at the given position in the file.
+		 * @returns `Promise<ReadonlyArray<typescript.DefinitionInfo> | undefined>`
+		 */
+		getTypeDefinitionAtPosition(
+			fileName: string,
+			position: number
+		): Promise<ReadonlyArray<any> | undefined>;
+		/**
+		 * Get the implementations of the item at the given position in the file.
+		 * @returns `Promise<ReadonlyArray<typescript.ImplementationLocation> | undefined>`
+		 */
+		getImplementationAtPosition(
+			fileName: string,
+			position: number
+		): Promise<ReadonlyArray<any> | undefined>;
 		/**
 		 * Get references to the item at the given position in the file.
 		 * @returns `Promise<typescript.ReferenceEntry[] | undefined>`
 		 */
 		getReferencesAtPosition(fileName: string, position: number): Promise<any[] | undefined>;
+		/**
+		 * Get semantic classifications, encoded in the TS 2020 format, for the given span of the file.
+		 * @returns `Promise<typescript.Classifications>`
+		 */
+		getEncodedSemanticClassifications(
+			fileName: string,
+			start: number,
+			length: number
+		): Promise<any>;
+		/**
+		 * Get the call hierarchy items of the symbol at the given position in the file.
+		 * @returns `Promise<typescript.CallHierarchyItem[] | undefined>`
+		 */
+		prepareCallHierarchy(fileName: string, position: number): Promise<any[] | undefined>;
+		/**
+		 * Get the calls of the call hierarchy item whose selection span starts at the given position.
+		 * @returns `Promise<typescript.CallHierarchyIncomingCall[]>`
+		 */
+		provideCallHierarchyIncomingCalls(fileName: string, position: number): Promise<any[]>;
+		/**
+		 * Get the calls made by the call hierarchy item whose selection span starts at the given position.
+		 * @returns `Promise<typescript.CallHierarchyOutgoingCall[]>`
+		 */
+		provideCallHierarchyOutgoingCalls(fileName: string, position: number): Promise<any[]>;
+		/**
+		 * Get the declarations in all files, except the default libs, whose name matches `searchValue`
+		 * fuzzily, best matches first.
+		 * @returns `Promise<typescript.NavigateToItem[]>`
+		 */
+		getNavigateToItems(searchValue: string, maxResults?: number): Promise<any[]>;
 		/**
 		 * Get outline entries for the item at the given position in the file.
 		 * @returns `Promise<typescript.NavigationBarItem[]>`
 		 */
 		getNavigationBarItems(fileName: string): Promise<any[]>;
+		/**
+		 * Get the tree of declarations in the file, rooted at the file itself.
+		 * @returns `Promise<typescript.NavigationTree | undefined>`
+		 */
+		getNavigationTree(fileName: string): Promise<any | undefined>;
+		/**
+		 * Get the foldable regions of the file.
+		 * @returns `Promise<typescript.OutliningSpan[]>`
+		 */
+		getOutliningSpans(fileName: string): Promise<any[]>;
+		/**
+		 * Get the nested syntactic ranges around the given position, innermost first.
+		 * @returns `Promise<typescript.SelectionRange | undefined>`
+		 */
+		getSmartSelectionRange(fileName: string, position: number): Promise<any | undefined>;
+		/**
+		 * Get the closing tag to insert after a JSX opening tag was completed by typing `>`.
+		 * @returns `Promise<typescript.JsxClosingTagInfo | undefined>`
+		 */
+		getJsxClosingTagAtPosition(fileName: string, position: number): Promise<any | undefined>;
+		/**
+		 * Get the ranges which should be edited together with the one at the given position,
+		 * like the names of an opening and a closing JSX tag.
+		 * @returns `Promise<{ ranges: typescript.TextSpan[]; wordPattern?: string } | undefined>`
+		 */
+		getLinkedEditingRangeAtPosition(fileName: string, position: number): Promise<any | undefined>;
+		/**
+		 * Get the module specifiers and referenced paths in the file which resolve to a model or an extra lib.
+		 * @returns `Promise<{ textSpan: typescript.TextSpan; target: string }[]>`
+		 */
+		getDocumentLinks(fileName: string): Promise<any[]>;
 		/**
 		 * Get changes which should be applied to format the given file.
-		 * @param options `typescript.FormatCodeOptions`
+		 * @param options `typescript.FormatCodeSettings`
 		 * @returns `Promise<typescript.TextChange[]>`
 		 */
 		getFormattingEditsForDocument(fileName: string, options: any): Promise<any[]>;
 		/**
 		 * Get changes which should be applied to format the given range in the file.
-		 * @param options `typescript.FormatCodeOptions`
+		 * @param options `typescript.FormatCodeSettings`
 		 * @returns `Promise<typescript.TextChange[]>`
 		 */
 		getFormattingEditsForRange(
@@ -370,7 +697,7 @@ declare namespace monaco.languages.typescript {
 		): Promise<any[]>;
 		/**
 		 * Get formatting changes which should be applied after the given keystroke.
-		 * @param options `typescript.FormatCodeOptions`
+		 * @param options `typescript.FormatCodeSettings`
 		 * @returns `Promise<typescript.TextChange[]>`
 		 */
 		getFormattingEditsAfterKeystroke(
@@ -396,6 +723,16 @@ declare namespace monaco.languages.typescript {
 		 * @returns `Promise<typescript.RenameInfo>`
 		 */
 		getRenameInfo(fileName: string, positon: number, options: any): Promise<any>;
+		/**
+		 * Get the edits which update all references to a file after it has been renamed.
+		 * @param formatOptions `typescript.FormatCodeSettings`
+		 * @returns `Promise<readonly typescript.FileTextChanges[]>`
+		 */
+		getEditsForFileRename(
+			oldFilePath: string,
+			newFilePath: string,
+			formatOptions: any
+		): Promise<readonly any[]>;
 		/**
 		 * Get transpiled output for the given file.
 		 * @returns `typescript.EmitOutput`
@@ -403,7 +740,7 @@ declare namespace monaco.languages.typescript {
 		getEmitOutput(fileName: string): Promise<EmitOutput>;
 		/**
 		 * Get possible code fixes at the given position in the file.
-		 * @param formatOptions `typescript.FormatCodeOptions`
+		 * @param formatOptions `typescript.FormatCodeSettings`
 		 * @returns `Promise<ReadonlyArray<typescript.CodeFixAction>>`
 		 */
 		getCodeFixesAtPosition(
@@ -413,24 +750,152 @@ declare namespace monaco.languages.typescript {
 			errorCodes: number[],
 			formatOptions: any
 		): Promise<ReadonlyArray<any>>;
+		/**
+		 * Get the edits which fix all problems in the file that have the given fix id.
+		 * @param fixId `typescript.CodeFixAction.fixId`
+		 * @param formatOptions `typescript.FormatCodeSettings`
+		 * @returns `Promise<typescript.CombinedCodeActions | undefined>`
+		 */
+		getCombinedCodeFix(fileName: string, fixId: {}, formatOptions: any): Promise<any | undefined>;
+		/**
+		 * Get the edits which sort the imports of the file and remove the unused ones.
+		 * @param formatOptions `typescript.FormatCodeSettings`
+		 * @returns `Promise<readonly typescript.FileTextChanges[]>`
+		 */
+		organizeImports(fileName: string, formatOptions: any): Promise<readonly any[]>;
+		/**
+		 * Get the refactorings which can be applied to the given range in the file.
+		 * @param triggerReason `typescript.RefactorTriggerReason`
+		 * @param preferences `typescript.UserPreferences`
+		 * @returns `Promise<typescript.ApplicableRefactorInfo[]>`
+		 */
+		getApplicableRefactors(
+			fileName: string,
+			start: number,
+			end: number,
+			triggerReason: string,
+			preferences: any
+		): Promise<any[]>;
+		/**
+		 * Get the edits of a refactoring action, as returned by `getApplicableRefactors`.
+		 * @param formatOptions `typescript.FormatCodeSettings`
+		 * @param preferences `typescript.UserPreferences`
+		 * @returns `Promise<typescript.RefactorEditInfo | undefined>`
+		 */
+		getEditsForRefactor(
+			fileName: string,
+			formatOptions: any,
+			start: number,
+			end: number,
+			refactorName: string,
+			actionName: string,
+			preferences: any
+		): Promise<any | undefined>;
+	}
+	export interface CallHierarchyItem {
+		name: string;
+		kind: languages.SymbolKind;
+		/** The name of the container of the symbol, if any. */
+		detail?: string;
+		uri: Uri;
+		/** The range of the whole declaration, e.g. the body of a function. */
+		range: IRange;
+		/** The range of the name of the declaration. */
+		selectionRange: IRange;
+	}
+	export interface CallHierarchyIncomingCall {
+		/** The item which makes the calls. */
+		from: CallHierarchyItem;
+		/** The ranges of the calls, which are relative to `from`. */
+		fromRanges: IRange[];
+	}
+	export interface CallHierarchyOutgoingCall {
+		/** The item which is called. */
+		to: CallHierarchyItem;
+		/** The ranges of the calls, which are relative to the item the calls were requested for. */
+		fromRanges: IRange[];
+	}
+	/**
+	 * The editor has no call hierarchy view, so the hierarchy is exposed to be rendered by the embedder.
+	 */
+	export interface CallHierarchyProvider {
+		/**
+		 * Get the call hierarchy items of the symbol at the given position, usually a single one.
+		 */
+		prepareCallHierarchy(
+			model: editor.ITextModel,
+			position: IPosition
+		): Promise<CallHierarchyItem[] | undefined>;
+		/**
+		 * Get the places which call the given item.
+		 */
+		provideIncomingCalls(item: CallHierarchyItem): Promise<CallHierarchyIncomingCall[] | undefined>;
+		/**
+		 * Get the places the given item calls.
+		 */
+		provideOutgoingCalls(item: CallHierarchyItem): Promise<CallHierarchyOutgoingCall[] | undefined>;
+	}
+	export interface WorkspaceSymbol {
+		name: string;
+		kind: languages.SymbolKind;
+		tags: languages.SymbolTag[];
+		containerName?: string;
+		uri: Uri;
+		range: IRange;
+	}
+	export interface WorkspaceSymbolSearchOptions {
+		/**
+		 * The maximum number of symbols to return.
+		 */
+		maxResults?: number;
+		/**
+		 * Only return symbols of these kinds.
+		 */
+		kinds?: languages.SymbolKind[];
+	}
+	/**
+	 * Searches the symbols of all models of the language and of the extra libs, e.g. for a
+	 * "Go to Symbol in Workspace" picker. Get it with `getWorkspaceSymbolProvider`. The query
+	 * matches names which contain it, or its characters in order, so `gNT` finds `getNavigationTree`.
+	 */
+	export interface WorkspaceSymbolProvider {
+		provideWorkspaceSymbols(
+			query: string,
+			options?: WorkspaceSymbolSearchOptions
+		): Promise<WorkspaceSymbol[]>;
 	}
 	class LanguageServiceDefaultsImpl implements LanguageServiceDefaults {
 		private _onDidChange;
+		private _onDidProviderOptionsChange;
 		private _onDidExtraLibsChange;
 		private _extraLibs;
 		private _removedExtraLibs;
 		private _eagerModelSync;
+		private _fileOperationsHost;
 		private _compilerOptions;
 		private _diagnosticsOptions;
+		private _completionOptions;
+		private _formatOptions;
+		private _entityOptions;
+		private _codeLensOptions;
+		private _semanticTokensOptions;
+		private _outlineOptions;
 		private _workerOptions;
 		private _onDidExtraLibsChangeTimeout;
 		constructor(
 			languageId: string,
 			compilerOptions: CompilerOptions,
 			diagnosticsOptions: DiagnosticsOptions,
+			completionOptions: CompletionOptions,
+			formatOptions: FormatOptions,
+			entityOptions: EntityOptions,
+			codeLensOptions: CodeLensOptions,
+			semanticTokensOptions: SemanticTokensOptions,
+			outlineOptions: OutlineOptions,
 			workerOptions: WorkerOptions
 		);
 		get onDidChange(): IEvent<void>;
+		get onDidProviderOptionsChange(): IEvent<void>;
 		get onDidExtraLibsChange(): IEvent<void>;
 		get workerOptions(): WorkerOptions;
 		getExtraLibs(): IExtraLibs;
@@ -446,10 +911,24 @@ declare namespace monaco.languages.typescript {
 		setCompilerOptions(options: CompilerOptions): void;
 		getDiagnosticsOptions(): DiagnosticsOptions;
 		setDiagnosticsOptions(options: DiagnosticsOptions): void;
+		getCompletionOptions(): CompletionOptions;
+		setCompletionOptions(options: CompletionOptions): void;
+		getFormatOptions(): FormatOptions;
+		setFormatOptions(options: FormatOptions): void;
+		getEntityOptions(): EntityOptions;
+		setEntityOptions(options: EntityOptions): void;
+		getCodeLensOptions(): CodeLensOptions;
+		setCodeLensOptions(options: CodeLensOptions): void;
+		getSemanticTokensOptions(): SemanticTokensOptions;
+		setSemanticTokensOptions(options: SemanticTokensOptions): void;
+		getOutlineOptions(): OutlineOptions;
+		setOutlineOptions(options: OutlineOptions): void;
 		setWorkerOptions(options: WorkerOptions): void;
 		setMaximumWorkerIdleTime(value: number): void;
 		setEagerModelSync(value: boolean): void;
 		getEagerModelSync(): boolean;
+		getFileOperationsHost(): FileOperationsHost | undefined;
+		setFileOperationsHost(host: FileOperationsHost | undefined): void;
 	}
 	export const typescriptVersion: string;
 	export function getTypeScriptWorker(): Promise<(...uris: Uri[]) => Promise<TypeScriptWorker>>;
@@ -457,6 +936,17 @@ declare namespace monaco.languages.typescript {
 	export function getLanguageWorker(
 		languageName: string
 	): Promise<(...uris: Uri[]) => Promise<TypeScriptWorker>>;
+	export function getCallHierarchyProvider(languageName: string): Promise<CallHierarchyProvider>;
+	export function getWorkspaceSymbolProvider(
+		languageName: string
+	): Promise<WorkspaceSymbolProvider>;
+	/**
+	 * Format the whole model with the given uri, e.g. before saving it. The model does not
+	 * need to be attached to an editor, but it needs to belong to a TypeScript or JavaScript language.
+	 * If the model changes while the edits are computed, they are computed again for the new version.
+	 * The promise rejects when the model is disposed meanwhile, or keeps changing.
+	 */
+	export function formatModel(uri: Uri): Promise<void>;
 	export function getLanguageDefaults(languageName: string): LanguageServiceDefaultsImpl;
 	export function setupNamedLanguage(
 		languageDefinition: languages.ILanguageExtensionPoint,
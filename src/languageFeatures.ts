@@ -5,13 +5,28 @@
 'use strict';
 
 import {
+	CallHierarchyIncomingCall,
+	CallHierarchyItem,
+	CallHierarchyOutgoingCall,
+	CallHierarchyProvider,
 	Diagnostic,
 	DiagnosticRelatedInformation,
+	EntityInfo,
+	EntityOptions,
+	FileOperationsHost,
+	FormatOptions,
 	LanguageServiceDefaults,
-	getLanguageDefaults
+	WorkspaceSymbol,
+	WorkspaceSymbolProvider,
+	WorkspaceSymbolSearchOptions
 } from './monaco.contribution';
 import type * as ts from './lib/typescriptServices';
-import type { TypeScriptWorker } from './tsWorker';
+import type {
+	CodeOutlineToken,
+	EntityCompletionContext,
+	EntityReferenceInfo,
+	TypeScriptWorker
+} from './tsWorker';
 import { libFileSet } from './lib/lib.index';
 import {
 	editor,
@@ -20,7 +35,10 @@ import {
 	Position,
 	Range,
 	CancellationToken,
+	Emitter,
 	IDisposable,
+	IEvent,
+	IPosition,
 	IRange,
 	MarkerTag,
 	MarkerSeverity
@@ -91,17 +109,53 @@ export abstract class Adapter {
 	}
 }
 
+// --- code editors
+
+/**
+ * The code editors, tracked from when the contribution is loaded. The mode itself is only
+ * loaded with the first model of its language, when the editor showing it usually exists already.
+ */
+export interface CodeEditors {
+	getEditors(): editor.ICodeEditor[];
+	readonly onDidAddEditor: IEvent<editor.ICodeEditor>;
+}
+
 // --- lib files
 
 export class LibFiles {
 	private _libFiles: Record<string, string>;
 	private _hasFetchedLibFiles: boolean;
 	private _fetchLibFilesPromise: Promise<void> | null;
+	private _extraLibModels: { [uri: string]: editor.ITextModel };
+	// the readOnly option of the editors which currently show a lib file
+	private _readOnlyEditors = new WeakMap<editor.ICodeEditor, boolean>();
 
-	constructor(private readonly _worker: (...uris: Uri[]) => Promise<TypeScriptWorker>) {
+	constructor(
+		private readonly _modeId: string,
+		private readonly _worker: (...uris: Uri[]) => Promise<TypeScriptWorker>,
+		private readonly _defaults: LanguageServiceDefaults,
+		codeEditors: CodeEditors
+	) {
 		this._libFiles = {};
 		this._hasFetchedLibFiles = false;
 		this._fetchLibFilesPromise = null;
+		this._extraLibModels = Object.create(null);
+
+		const trackEditor = (codeEditor: editor.ICodeEditor) => {
+			codeEditor.onDidChangeModel(() => this._updateReadOnly(codeEditor));
+			this._updateReadOnly(codeEditor);
+		};
+		codeEditors.getEditors().forEach(trackEditor);
+		codeEditors.onDidAddEditor(trackEditor);
+		this._defaults.onDidExtraLibsChange(() => this._updateExtraLibModels());
+	}
+
+	/**
+	 * Whether the uri belongs to a lib file or an extra lib, which are not editor documents.
+	 * Their models are read-only, and neither synced to the worker nor validated.
+	 */
+	public isReadOnly(uri: Uri): boolean {
+		return this.isLibFile(uri) || typeof this._getExtraLibContent(uri) === 'string';
 	}
 
 	public isLibFile(uri: Uri | null): boolean {
@@ -122,9 +176,59 @@ export class LibFiles {
 		if (this.isLibFile(uri) && this._hasFetchedLibFiles) {
 			return editor.createModel(this._libFiles[uri.path.slice(1)], 'typescript', uri);
 		}
+		const extraLibContent = this._getExtraLibContent(uri);
+		if (typeof extraLibContent === 'string') {
+			// extra libs are not editor documents, so create one on demand
+			const extraLibModel = editor.createModel(extraLibContent, this._modeId, uri);
+			this._extraLibModels[uri.toString()] = extraLibModel;
+			return extraLibModel;
+		}
 		return null;
 	}
 
+	private _updateReadOnly(codeEditor: editor.ICodeEditor): void {
+		const model = codeEditor.getModel();
+		const isReadOnly = !!model && this.isReadOnly(model.uri);
+		const previousReadOnly = this._readOnlyEditors.get(codeEditor);
+		if (isReadOnly && previousReadOnly === undefined) {
+			this._readOnlyEditors.set(codeEditor, codeEditor.getOption(editor.EditorOption.readOnly));
+			codeEditor.updateOptions({ readOnly: true });
+		} else if (!isReadOnly && previousReadOnly !== undefined) {
+			this._readOnlyEditors.delete(codeEditor);
+			codeEditor.updateOptions({ readOnly: previousReadOnly });
+		}
+	}
+
+	private _updateExtraLibModels(): void {
+		for (const uri of Object.keys(this._extraLibModels)) {
+			const model = this._extraLibModels[uri];
+			const content = model.isDisposed() ? undefined : this._getExtraLibContent(model.uri);
+			if (typeof content !== 'string') {
+				delete this._extraLibModels[uri];
+				if (!model.isDisposed()) {
+					model.dispose();
+				}
+			} else if (content !== model.getValue()) {
+				model.setValue(content);
+			}
+		}
+	}
+
+	private _getExtraLibContent(uri: Uri): string | undefined {
+		const extraLibs = this._defaults.getExtraLibs();
+		const uriString = uri.toString();
+		if (extraLibs[uriString]) {
+			return extraLibs[uriString].content;
+		}
+		// the file path of an extra lib is not necessarily a normalized uri
+		for (const filePath in extraLibs) {
+			if (Uri.parse(filePath).toString() === uriString) {
+				return extraLibs[filePath].content;
+			}
+		}
+		return undefined;
+	}
+
 	private _containsLibFile(uris: (Uri | null)[]): boolean {
 		for (let uri of uris) {
 			if (this.isLibFile(uri)) {
@@ -164,6 +268,59 @@ enum DiagnosticCategory {
 	Message = 3
 }
 
+/**
+ * The code of the diagnostics for references to unknown platform entities,
+ * outside of the range of codes used by TypeScript.
+ */
+const unknownEntityDiagnosticCode = 100001;
+
+/**
+ * Get the known names which are most similar to the given one, most similar first.
+ */
+function getClosestNames(name: string, candidates: string[], maxCount = 3): string[] {
+	const maxDistance = Math.max(2, Math.floor(name.length * 0.4));
+	return candidates
+		.map((candidate) => ({
+			candidate,
+			distance: getEditDistance(name.toLowerCase(), candidate.toLowerCase())
+		}))
+		.filter(({ distance }) => distance <= maxDistance)
+		.sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+		.slice(0, maxCount)
+		.map(({ candidate }) => candidate);
+}
+
+function getUnknownEntityMessage(reference: { collection: string; entity: string }): string {
+	return `'${reference.entity}' is not a known entity of '${reference.collection}'.`;
+}
+
+const identifierPattern = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Escapes an entity name to be used within the given quotes.
+ */
+function escapeEntityName(name: string, quote: string): string {
+	const escaped = name.replace(/\\/g, '\\\\').replace(new RegExp(quote, 'g'), '\\' + quote);
+	// template literals would otherwise interpolate the rest of the name
+	return quote === '`' ? escaped.replace(/\$\{/g, '\\${') : escaped;
+}
+
+function getEditDistance(a: string, b: string): number {
+	let previous: number[] = [];
+	for (let j = 0; j <= b.length; j++) {
+		previous.push(j);
+	}
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+			current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+		}
+		previous = current;
+	}
+	return previous[b.length];
+}
+
 /**
  * temporary interface until the editor API exposes
  * `IModel.isAttachedToEditor` and `IModel.onDidChangeAttached`
@@ -186,7 +343,7 @@ export class DiagnosticsAdapter extends Adapter {
 		super(worker);
 
 		const onModelAdd = (model: IInternalEditorModel): void => {
-			if (model.getModeId() !== _selector) {
+			if (model.getModeId() !== _selector || this._libFiles.isReadOnly(model.uri)) {
 				return;
 			}
 
@@ -300,6 +457,10 @@ export class DiagnosticsAdapter extends Adapter {
 		if (!noSuggestionDiagnostics) {
 			promises.push(worker.getSuggestionDiagnostics(model.uri.toString()));
 		}
+		const { knownEntityNames, keyRules } = this._defaults.getEntityOptions();
+		if (knownEntityNames && Object.keys(knownEntityNames).length > 0) {
+			promises.push(this._getUnknownEntityDiagnostics(worker, model, knownEntityNames, keyRules));
+		}
 
 		const allDiagnostics = await Promise.all(promises);
 
@@ -338,6 +499,31 @@ export class DiagnosticsAdapter extends Adapter {
 		);
 	}
 
+	private async _getUnknownEntityDiagnostics(
+		worker: TypeScriptWorker,
+		model: editor.ITextModel,
+		knownEntityNames: { [collection: string]: string[] },
+		keyRules: EntityOptions['keyRules']
+	): Promise<Diagnostic[]> {
+		const references = await worker.getEntityReferences(
+			model.uri.toString(),
+			Object.keys(knownEntityNames),
+			keyRules
+		);
+		return references
+			.filter(
+				(reference) => knownEntityNames[reference.collection].indexOf(reference.entity) === -1
+			)
+			.map((reference) => ({
+				category: DiagnosticCategory.Warning,
+				code: unknownEntityDiagnosticCode,
+				file: { fileName: reference.fileName },
+				start: reference.nameSpan.start,
+				length: reference.nameSpan.length,
+				messageText: getUnknownEntityMessage(reference)
+			}));
+	}
+
 	private _convertDiagnostics(model: editor.ITextModel, diag: Diagnostic): editor.IMarkerData {
 		const diagStart = diag.start || 0;
 		const diagLength = diag.length || 1;
@@ -422,6 +608,44 @@ export class DiagnosticsAdapter extends Adapter {
 	}
 }
 
+// --- format options ------
+
+export abstract class FormatHelper extends Adapter {
+	protected static _convertOptions(
+		options: languages.FormattingOptions,
+		formatOptions: FormatOptions
+	): ts.FormatCodeSettings {
+		return {
+			convertTabsToSpaces: options.insertSpaces,
+			tabSize: options.tabSize,
+			indentSize: options.tabSize,
+			indentStyle: IndentStyle.Smart,
+			newLineCharacter: '\n',
+			insertSpaceAfterCommaDelimiter: true,
+			insertSpaceAfterSemicolonInForStatements: true,
+			insertSpaceBeforeAndAfterBinaryOperators: true,
+			insertSpaceAfterKeywordsInControlFlowStatements: true,
+			insertSpaceAfterFunctionKeywordForAnonymousFunctions: true,
+			insertSpaceAfterOpeningAndBeforeClosingNonemptyParenthesis: false,
+			insertSpaceAfterOpeningAndBeforeClosingNonemptyBrackets: false,
+			insertSpaceAfterOpeningAndBeforeClosingTemplateStringBraces: false,
+			placeOpenBraceOnNewLineForControlBlocks: false,
+			placeOpenBraceOnNewLineForFunctions: false,
+			...(<ts.FormatCodeSettings>formatOptions)
+		};
+	}
+
+	protected _convertTextChanges(
+		model: editor.ITextModel,
+		change: ts.TextChange
+	): languages.TextEdit {
+		return {
+			text: change.newText,
+			range: this._textSpanToRange(model, change.span)
+		};
+	}
+}
+
 // --- suggest ------
 
 interface MyCompletionItem extends languages.CompletionItem {
@@ -429,11 +653,23 @@ interface MyCompletionItem extends languages.CompletionItem {
 	uri: Uri;
 	position: Position;
 	offset: number;
+	source?: string;
+	data?: ts.CompletionEntryData;
+	/** The collection of an entity name completion, whose details come from the embedder. */
+	entityCollection?: string;
 }
 
-export class SuggestAdapter extends Adapter implements languages.CompletionItemProvider {
+export class SuggestAdapter extends FormatHelper implements languages.CompletionItemProvider {
+	constructor(
+		private readonly _defaults: LanguageServiceDefaults,
+		worker: (...uris: Uri[]) => Promise<TypeScriptWorker>
+	) {
+		super(worker);
+	}
+
 	public get triggerCharacters(): string[] {
-		return ['.'];
+		// quotes trigger the entity names of collections, like `Things["`
+		return ['.', '"', "'"];
 	}
 
 	public async provideCompletionItems(
@@ -458,13 +694,21 @@ export class SuggestAdapter extends Adapter implements languages.CompletionItemP
 			return;
 		}
 
-		const info = await worker.getCompletionsAtPosition(resource.toString(), offset);
+		const [info, entitySuggestions] = await Promise.all([
+			worker.getCompletionsAtPosition(
+				resource.toString(),
+				offset,
+				this._defaults.getCompletionOptions()
+			),
+			this._getEntitySuggestions(model, position, offset, worker)
+		]);
 
-		if (!info || model.isDisposed()) {
+		if ((!info && entitySuggestions.length === 0) || model.isDisposed()) {
 			return;
 		}
 
-		const suggestions: MyCompletionItem[] = info.entries.map((entry) => {
+		const entries = info ? info.entries : [];
+		const suggestions: MyCompletionItem[] = entries.map((entry) => {
 			let range = wordRange;
 			if (entry.replacementSpan) {
 				const p1 = model.getPositionAt(entry.replacementSpan.start);
@@ -483,18 +727,94 @@ export class SuggestAdapter extends Adapter implements languages.CompletionItemP
 				offset: offset,
 				range: range,
 				label: entry.name,
-				insertText: entry.name,
+				insertText: entry.insertText || entry.name,
+				insertTextRules: entry.isSnippet
+					? languages.CompletionItemInsertTextRule.InsertAsSnippet
+					: undefined,
+				filterText: SuggestAdapter.getFilterText(entry),
 				sortText: entry.sortText,
 				kind: SuggestAdapter.convertKind(entry.kind),
-				tags
+				tags,
+				// needed to resolve the details of auto-import completions
+				source: entry.source,
+				data: entry.data
 			};
 		});
 
 		return {
-			suggestions
+			suggestions: suggestions.concat(entitySuggestions)
 		};
 	}
 
+	private async _getEntitySuggestions(
+		model: editor.ITextModel,
+		position: Position,
+		offset: number,
+		worker: TypeScriptWorker
+	): Promise<MyCompletionItem[]> {
+		const providers = this._defaults.getEntityOptions().entityNameProviders;
+		if (!providers || Object.keys(providers).length === 0) {
+			return [];
+		}
+
+		// failing to suggest entities should not take the TypeScript completions down with it
+		const resource = model.uri;
+		let completionContext: EntityCompletionContext | undefined;
+		try {
+			completionContext = await worker.getEntityCompletionContext(
+				resource.toString(),
+				offset,
+				Object.keys(providers)
+			);
+		} catch {
+			return [];
+		}
+
+		const context = completionContext;
+		if (!context || model.isDisposed()) {
+			return [];
+		}
+
+		let entities: EntityInfo[];
+		try {
+			entities = await providers[context.collection].provideEntities(context.collection);
+		} catch {
+			return [];
+		}
+
+		if (model.isDisposed()) {
+			return [];
+		}
+
+		const range = this._textSpanToRange(model, context.replacementSpan);
+		return entities.map((entity) => {
+			const item: MyCompletionItem = {
+				uri: resource,
+				position,
+				offset,
+				range,
+				label: entity.name,
+				insertText: entity.name,
+				kind: entity.kind !== undefined ? entity.kind : languages.CompletionItemKind.Value,
+				detail: entity.detail,
+				// entity names are more relevant than the members of the collection
+				sortText: '0',
+				entityCollection: context.collection
+			};
+			if (context.quote) {
+				item.insertText = escapeEntityName(entity.name, context.quote);
+			} else if (context.accessorSpan && !identifierPattern.test(entity.name)) {
+				// names which aren't identifiers turn `Things.` into `Things["name"]`
+				const quote =
+					this._defaults.getCompletionOptions().quotePreference === 'single' ? "'" : '"';
+				item.insertText = `[${quote}${escapeEntityName(entity.name, quote)}${quote}]`;
+				item.range = this._textSpanToRange(model, context.accessorSpan);
+				item.filterText = '.' + entity.name;
+			}
+			return item;
+		});
+	}
+
 	public async resolveCompletionItem(
 		item: languages.CompletionItem,
 		token: CancellationToken
@@ -504,25 +824,175 @@ export class SuggestAdapter extends Adapter implements languages.CompletionItemP
 		const position = myItem.position;
 		const offset = myItem.offset;
 
+		if (myItem.entityCollection !== undefined) {
+			return this._resolveEntityItem(myItem, myItem.entityCollection);
+		}
+
+		const model = editor.getModel(resource);
 		const worker = await this._worker(resource);
+		// the format options apply to the code actions, like the import of the completion
+		const formatOptions = model
+			? FormatHelper._convertOptions(model.getOptions(), this._defaults.getFormatOptions())
+			: undefined;
 		const details = await worker.getCompletionEntryDetails(
 			resource.toString(),
 			offset,
-			myItem.label
+			myItem.label,
+			formatOptions,
+			myItem.source,
+			this._defaults.getCompletionOptions(),
+			myItem.data
 		);
 		if (!details) {
 			return myItem;
 		}
-		return <MyCompletionItem>{
+
+		// code actions of a completion, like adding a missing import,
+		// are applied along with it when the completion is accepted
+		let detail = displayPartsToString(details.displayParts);
+		const additionalTextEdits: languages.TextEdit[] = [];
+		if (details.codeActions && model && !model.isDisposed()) {
+			for (const codeAction of details.codeActions) {
+				for (const change of codeAction.changes) {
+					if (change.fileName !== resource.toString()) {
+						continue;
+					}
+					for (const textChange of change.textChanges) {
+						additionalTextEdits.push({
+							range: this._textSpanToRange(model, textChange.span),
+							text: textChange.newText
+						});
+					}
+				}
+			}
+			detail = details.codeActions
+				.map((codeAction) => codeAction.description)
+				.concat(detail)
+				.join('\n');
+		}
+
+		const result = <MyCompletionItem>{
 			uri: resource,
 			position: position,
 			label: details.name,
 			kind: SuggestAdapter.convertKind(details.kind),
-			detail: displayPartsToString(details.displayParts),
+			detail,
 			documentation: {
 				value: SuggestAdapter.createDocumentationString(details)
-			}
+			},
+			additionalTextEdits
 		};
+
+		if (
+			this._defaults.getCompletionOptions().completeFunctionCalls &&
+			model &&
+			!model.isDisposed() &&
+			myItem.insertText === details.name &&
+			!myItem.insertTextRules &&
+			SuggestAdapter.isCallableKind(details.kind) &&
+			!SuggestAdapter.isFollowedByCall(model, position)
+		) {
+			const snippet = SuggestAdapter.createFunctionCallSnippet(details);
+			if (snippet) {
+				result.insertText = snippet;
+				result.insertTextRules = languages.CompletionItemInsertTextRule.InsertAsSnippet;
+			}
+		}
+
+		return result;
+	}
+
+	private async _resolveEntityItem(
+		item: MyCompletionItem,
+		collection: string
+	): Promise<MyCompletionItem> {
+		const provider = (this._defaults.getEntityOptions().entityNameProviders || {})[collection];
+		if (!provider || !provider.resolveDocumentation) {
+			return item;
+		}
+		let documentation: string | undefined;
+		try {
+			documentation = await provider.resolveDocumentation(collection, item.label);
+		} catch {
+			return item;
+		}
+		if (documentation) {
+			item.documentation = { value: documentation };
+		}
+		return item;
+	}
+
+	private static getFilterText(entry: ts.CompletionEntry): string | undefined {
+		if (!entry.insertText) {
+			return undefined;
+		}
+		// `this.` completions should not rank higher just because of their prefix
+		if (entry.insertText.indexOf('this.') === 0) {
+			return undefined;
+		}
+		// filter bracket accessors like `["a b"]` by `.a b`, which is closer to what is typed
+		if (entry.insertText.indexOf('[') === 0) {
+			return entry.insertText.replace(/^\[['"](.+)['"]\]$/, '.$1');
+		}
+		return entry.insertText;
+	}
+
+	private static isCallableKind(kind: string): boolean {
+		switch (kind) {
+			case Kind.function:
+			case Kind.localFunction:
+			case Kind.memberFunction:
+				return true;
+		}
+		return false;
+	}
+
+	private static isFollowedByCall(model: editor.ITextModel, position: Position): boolean {
+		const lineSuffix = model.getLineContent(position.lineNumber).substr(position.column - 1);
+		return /^[\w$]*\s*\(/.test(lineSuffix);
+	}
+
+	/**
+	 * Creates a snippet like `name(${1:a}, ${2:b})$0` from the required parameters
+	 * of the first signature in the display parts of the completion entry.
+	 */
+	private static createFunctionCallSnippet(details: ts.CompletionEntryDetails): string | undefined {
+		const parts = details.displayParts;
+		let i = 0;
+		// skip prefixes like `(method) Foo.` up to the parameter list following the name
+		while (i < parts.length && parts[i].text !== details.name) {
+			i++;
+		}
+		while (i < parts.length && parts[i].text !== '(') {
+			i++;
+		}
+		if (i === parts.length) {
+			return undefined;
+		}
+
+		const parameterNames: string[] = [];
+		let depth = 0;
+		for (; i < parts.length; i++) {
+			const part = parts[i];
+			if (part.kind === 'punctuation' && part.text === '(') {
+				depth++;
+			} else if (part.kind === 'punctuation' && part.text === ')') {
+				depth--;
+				if (depth === 0) {
+					break;
+				}
+			} else if (part.kind === 'parameterName' && depth === 1) {
+				const next = parts[i + 1];
+				if (!next || next.text !== '?') {
+					parameterNames.push(part.text);
+				}
+			}
+		}
+
+		const placeholders = parameterNames.map(
+			(name, index) => `\${${index + 1}:${name.replace(/[$}\\]/g, '\\$&')}}`
+		);
+		return `${details.name}(${placeholders.join(', ')})$0`;
 	}
 
 	private static convertKind(kind: string): languages.CompletionItemKind {
@@ -747,33 +1217,22 @@ export class OccurrencesAdapter extends Adapter implements languages.DocumentHig
 
 // --- definition ------
 
-export class DefinitionAdapter extends Adapter {
+/**
+ * Base class of the adapters which resolve locations in other files,
+ * including lib files and extra libs, for which models are created on demand.
+ */
+export abstract class LocationAdapter extends Adapter {
 	constructor(
-		private readonly _libFiles: LibFiles,
+		protected readonly _libFiles: LibFiles,
 		worker: (...uris: Uri[]) => Promise<TypeScriptWorker>
 	) {
 		super(worker);
 	}
 
-	public async provideDefinition(
+	protected async _convertLocations(
 		model: editor.ITextModel,
-		position: Position,
-		token: CancellationToken
-	): Promise<languages.Definition | undefined> {
-		const resource = model.uri;
-		const offset = model.getOffsetAt(position);
-		const worker = await this._worker(resource);
-
-		if (model.isDisposed()) {
-			return;
-		}
-
-		const entries = await worker.getDefinitionAtPosition(resource.toString(), offset);
-
-		if (!entries || model.isDisposed()) {
-			return;
-		}
-
+		entries: ReadonlyArray<{ fileName: string; textSpan: ts.TextSpan }>
+	): Promise<languages.Location[] | undefined> {
 		// Fetch lib files if necessary
 		await this._libFiles.fetchLibFilesIfNecessary(
 			entries.map((entry) => Uri.parse(entry.fileName))
@@ -792,39 +1251,55 @@ export class DefinitionAdapter extends Adapter {
 					uri: uri,
 					range: this._textSpanToRange(refModel, entry.textSpan)
 				});
-			} else {
-				const matchedLibFile = getLanguageDefaults('typescript').getExtraLibs()[entry.fileName]
-				if (matchedLibFile) {
-					const libModel = editor.createModel(matchedLibFile.content, 'typescript', uri);
-					return {
-						uri: uri,
-						range: this._textSpanToRange(libModel, entry.textSpan)
-					}
-				}
-
-
 			}
 		}
 		return result;
 	}
 }
 
-// --- references ------
+export class DefinitionAdapter
+	extends LocationAdapter
+	implements languages.DefinitionProvider, languages.DeclarationProvider {
+	public async provideDefinition(
+		model: editor.ITextModel,
+		position: Position,
+		token: CancellationToken
+	): Promise<languages.Definition | undefined> {
+		const resource = model.uri;
+		const offset = model.getOffsetAt(position);
+		const worker = await this._worker(resource);
 
-export class ReferenceAdapter extends Adapter implements languages.ReferenceProvider {
-	constructor(
-		private readonly _libFiles: LibFiles,
-		worker: (...uris: Uri[]) => Promise<TypeScriptWorker>
-	) {
-		super(worker);
+		if (model.isDisposed()) {
+			return;
+		}
+
+		const entries = await worker.getDefinitionAtPosition(resource.toString(), offset);
+
+		if (!entries || model.isDisposed()) {
+			return;
+		}
+
+		return this._convertLocations(model, entries);
 	}
 
-	public async provideReferences(
+	public async provideDeclaration(
 		model: editor.ITextModel,
 		position: Position,
-		context: languages.ReferenceContext,
 		token: CancellationToken
-	): Promise<languages.Location[] | undefined> {
+	): Promise<languages.Definition | undefined> {
+		// TS does not distinguish between the declaration and the definition of a symbol
+		return this.provideDefinition(model, position, token);
+	}
+}
+
+export class TypeDefinitionAdapter
+	extends LocationAdapter
+	implements languages.TypeDefinitionProvider {
+	public async provideTypeDefinition(
+		model: editor.ITextModel,
+		position: Position,
+		token: CancellationToken
+	): Promise<languages.Definition | undefined> {
 		const resource = model.uri;
 		const offset = model.getOffsetAt(position);
 		const worker = await this._worker(resource);
@@ -833,87 +1308,368 @@ export class ReferenceAdapter extends Adapter implements languages.ReferenceProv
 			return;
 		}
 
-		const entries = await worker.getReferencesAtPosition(resource.toString(), offset);
+		const entries = await worker.getTypeDefinitionAtPosition(resource.toString(), offset);
 
 		if (!entries || model.isDisposed()) {
 			return;
 		}
 
-		// Fetch lib files if necessary
-		await this._libFiles.fetchLibFilesIfNecessary(
-			entries.map((entry) => Uri.parse(entry.fileName))
-		);
+		return this._convertLocations(model, entries);
+	}
+}
+
+export class ImplementationAdapter
+	extends LocationAdapter
+	implements languages.ImplementationProvider {
+	public async provideImplementation(
+		model: editor.ITextModel,
+		position: Position,
+		token: CancellationToken
+	): Promise<languages.Definition | undefined> {
+		const resource = model.uri;
+		const offset = model.getOffsetAt(position);
+		const worker = await this._worker(resource);
 
 		if (model.isDisposed()) {
 			return;
 		}
 
-		const result: languages.Location[] = [];
-		for (let entry of entries) {
-			const uri = Uri.parse(entry.fileName);
-			const refModel = this._libFiles.getOrCreateModel(uri);
-			if (refModel) {
-				result.push({
-					uri: uri,
-					range: this._textSpanToRange(refModel, entry.textSpan)
-				});
-			}
+		const entries = await worker.getImplementationAtPosition(resource.toString(), offset);
+
+		if (!entries || model.isDisposed()) {
+			return;
 		}
-		return result;
+
+		return this._convertLocations(model, entries);
 	}
 }
 
-// --- outline ------
+// --- call hierarchy ------
 
-export class OutlineAdapter extends Adapter implements languages.DocumentSymbolProvider {
-	public async provideDocumentSymbols(
+export class CallHierarchyAdapter extends LocationAdapter implements CallHierarchyProvider {
+	public async prepareCallHierarchy(
 		model: editor.ITextModel,
-		token: CancellationToken
-	): Promise<languages.DocumentSymbol[] | undefined> {
+		position: IPosition
+	): Promise<CallHierarchyItem[] | undefined> {
 		const resource = model.uri;
+		const offset = model.getOffsetAt(position);
 		const worker = await this._worker(resource);
 
 		if (model.isDisposed()) {
 			return;
 		}
 
-		const items = await worker.getNavigationBarItems(resource.toString());
+		const items = await worker.prepareCallHierarchy(resource.toString(), offset);
 
 		if (!items || model.isDisposed()) {
 			return;
 		}
 
-		const convert = (
-			bucket: languages.DocumentSymbol[],
-			item: ts.NavigationBarItem,
-			containerLabel?: string
-		): void => {
-			let result: languages.DocumentSymbol = {
-				name: item.text,
-				detail: '',
-				kind: <languages.SymbolKind>(outlineTypeTable[item.kind] || languages.SymbolKind.Variable),
-				range: this._textSpanToRange(model, item.spans[0]),
-				selectionRange: this._textSpanToRange(model, item.spans[0]),
-				tags: [],
-			};
+		await this._libFiles.fetchLibFilesIfNecessary(items.map((item) => Uri.parse(item.file)));
+		return this._convertItems(items);
+	}
 
-			if (containerLabel) result.containerName = containerLabel;
+	public async provideIncomingCalls(
+		item: CallHierarchyItem
+	): Promise<CallHierarchyIncomingCall[] | undefined> {
+		const model = this._libFiles.getOrCreateModel(item.uri);
+		if (!model) {
+			return;
+		}
+		const worker = await this._worker(item.uri);
 
-			if (item.childItems && item.childItems.length > 0) {
-				for (let child of item.childItems) {
-					convert(bucket, child, result.name);
-				}
+		if (model.isDisposed()) {
+			return;
+		}
+
+		const calls = await worker.provideCallHierarchyIncomingCalls(
+			item.uri.toString(),
+			model.getOffsetAt({
+				lineNumber: item.selectionRange.startLineNumber,
+				column: item.selectionRange.startColumn
+			})
+		);
+
+		await this._libFiles.fetchLibFilesIfNecessary(calls.map((call) => Uri.parse(call.from.file)));
+
+		const result: CallHierarchyIncomingCall[] = [];
+		for (const call of calls) {
+			// the spans of incoming calls are located in the calling file
+			const fromModel = this._libFiles.getOrCreateModel(Uri.parse(call.from.file));
+			const from = this._convertItems([call.from])[0];
+			if (fromModel && from) {
+				result.push({
+					from,
+					fromRanges: call.fromSpans.map((span) => this._textSpanToRange(fromModel, span))
+				});
 			}
+		}
+		return result;
+	}
 
-			bucket.push(result);
-		};
+	public async provideOutgoingCalls(
+		item: CallHierarchyItem
+	): Promise<CallHierarchyOutgoingCall[] | undefined> {
+		const model = this._libFiles.getOrCreateModel(item.uri);
+		if (!model) {
+			return;
+		}
+		const worker = await this._worker(item.uri);
+
+		if (model.isDisposed()) {
+			return;
+		}
+
+		const calls = await worker.provideCallHierarchyOutgoingCalls(
+			item.uri.toString(),
+			model.getOffsetAt({
+				lineNumber: item.selectionRange.startLineNumber,
+				column: item.selectionRange.startColumn
+			})
+		);
+
+		if (model.isDisposed()) {
+			return;
+		}
+
+		await this._libFiles.fetchLibFilesIfNecessary(calls.map((call) => Uri.parse(call.to.file)));
+
+		const result: CallHierarchyOutgoingCall[] = [];
+		for (const call of calls) {
+			// the spans of outgoing calls are located in the file of the item itself
+			const to = this._convertItems([call.to])[0];
+			if (to) {
+				result.push({
+					to,
+					fromRanges: call.fromSpans.map((span) => this._textSpanToRange(model, span))
+				});
+			}
+		}
+		return result;
+	}
+
+	private _convertItems(items: ts.CallHierarchyItem[]): CallHierarchyItem[] {
+		const result: CallHierarchyItem[] = [];
+		for (const item of items) {
+			const uri = Uri.parse(item.file);
+			const itemModel = this._libFiles.getOrCreateModel(uri);
+			if (itemModel) {
+				result.push({
+					name: item.name,
+					kind: outlineTypeTable[item.kind] || languages.SymbolKind.Function,
+					detail: item.containerName,
+					uri,
+					range: this._textSpanToRange(itemModel, item.span),
+					selectionRange: this._textSpanToRange(itemModel, item.selectionSpan)
+				});
+			}
+		}
+		return result;
+	}
+}
+
+// --- workspace symbols ------
+
+export class WorkspaceSymbolAdapter extends LocationAdapter implements WorkspaceSymbolProvider {
+	constructor(
+		libFiles: LibFiles,
+		private readonly _modeId: string,
+		worker: (...uris: Uri[]) => Promise<TypeScriptWorker>
+	) {
+		super(libFiles, worker);
+	}
+
+	public async provideWorkspaceSymbols(
+		query: string,
+		options: WorkspaceSymbolSearchOptions = {}
+	): Promise<WorkspaceSymbol[]> {
+		if (!query) {
+			return [];
+		}
 
-		let result: languages.DocumentSymbol[] = [];
-		items.forEach((item) => convert(result, item));
+		// sync all models of the language, not only the ones which were requested so far
+		const worker = await this._worker(
+			...editor
+				.getModels()
+				.filter((model) => model.getModeId() === this._modeId)
+				.map((model) => model.uri)
+		);
+		const kinds = options.kinds;
+		// with a kind filter the limit can only be applied after filtering
+		const items = await worker.getNavigateToItems(query, kinds ? undefined : options.maxResults);
+
+		const result: WorkspaceSymbol[] = [];
+		for (const item of items) {
+			const kind = outlineTypeTable[item.kind] || languages.SymbolKind.Variable;
+			if (kinds && kinds.indexOf(kind) === -1) {
+				continue;
+			}
+			const uri = Uri.parse(item.fileName);
+			const model = this._libFiles.getOrCreateModel(uri);
+			if (!model) {
+				continue;
+			}
+			result.push({
+				name: item.name,
+				kind,
+				tags: parseKindModifiers(item.kindModifiers).has(Kind.deprecatedModifier)
+					? [languages.SymbolTag.Deprecated]
+					: [],
+				containerName: item.containerName || undefined,
+				uri,
+				range: this._textSpanToRange(model, item.textSpan)
+			});
+			if (options.maxResults !== undefined && result.length >= options.maxResults) {
+				break;
+			}
+		}
 		return result;
 	}
 }
 
+// --- references ------
+
+export class ReferenceAdapter extends LocationAdapter implements languages.ReferenceProvider {
+	public async provideReferences(
+		model: editor.ITextModel,
+		position: Position,
+		context: languages.ReferenceContext,
+		token: CancellationToken
+	): Promise<languages.Location[] | undefined> {
+		const resource = model.uri;
+		const offset = model.getOffsetAt(position);
+		const worker = await this._worker(resource);
+
+		if (model.isDisposed()) {
+			return;
+		}
+
+		const entries = await worker.getReferencesAtPosition(resource.toString(), offset);
+
+		if (!entries || model.isDisposed()) {
+			return;
+		}
+
+		return this._convertLocations(model, entries);
+	}
+}
+
+// --- outline ------
+
+export class OutlineAdapter extends Adapter implements languages.DocumentSymbolProvider {
+	constructor(
+		private readonly _defaults: LanguageServiceDefaults,
+		worker: (...uris: Uri[]) => Promise<TypeScriptWorker>
+	) {
+		super(worker);
+	}
+
+	public async provideDocumentSymbols(
+		model: editor.ITextModel,
+		token: CancellationToken
+	): Promise<languages.DocumentSymbol[] | undefined> {
+		const resource = model.uri;
+		const worker = await this._worker(resource);
+
+		if (model.isDisposed()) {
+			return;
+		}
+
+		if (this._defaults.getOutlineOptions().useCodeOutline) {
+			return this._getCodeOutline(model, worker);
+		}
+
+		const tree = await worker.getNavigationTree(resource.toString());
+
+		if (!tree || model.isDisposed()) {
+			return;
+		}
+
+		const convert = (
+			item: ts.NavigationTree,
+			containerLabel?: string
+		): languages.DocumentSymbol => {
+			const modifiers = parseKindModifiers(item.kindModifiers);
+			const range = this._textSpanToRange(model, item.spans[0]);
+			const result: languages.DocumentSymbol = {
+				name: item.text,
+				detail: OutlineAdapter._getDetail(modifiers),
+				kind: <languages.SymbolKind>(outlineTypeTable[item.kind] || languages.SymbolKind.Variable),
+				range,
+				selectionRange: item.nameSpan ? this._textSpanToRange(model, item.nameSpan) : range,
+				tags: modifiers.has(Kind.deprecatedModifier) ? [languages.SymbolTag.Deprecated] : []
+			};
+
+			if (containerLabel) result.containerName = containerLabel;
+
+			if (item.childItems && item.childItems.length > 0) {
+				result.children = item.childItems.map((child) => convert(child, result.name));
+			}
+
+			return result;
+		};
+
+		// the root of the tree is the file itself
+		return (tree.childItems || []).map((item) => convert(item));
+	}
+
+	private async _getCodeOutline(
+		model: editor.ITextModel,
+		worker: TypeScriptWorker
+	): Promise<languages.DocumentSymbol[] | undefined> {
+		const { knownEntityNames, keyRules, entityNameProviders } = this._defaults.getEntityOptions();
+		const collections = Object.keys({ ...knownEntityNames, ...keyRules, ...entityNameProviders });
+		const tokens = await worker.getOutline(model.uri.toString(), collections, keyRules);
+
+		if (!tokens || model.isDisposed()) {
+			return;
+		}
+
+		const convert = (
+			token: CodeOutlineToken,
+			containerLabel?: string
+		): languages.DocumentSymbol => {
+			const result: languages.DocumentSymbol = {
+				name: token.name,
+				// the entity the entry belongs to, e.g. `Things["Foo"]`
+				detail: token.collection !== undefined ? `${token.collection}["${token.entity}"]` : '',
+				kind: codeOutlineTypeTable[token.kind] || languages.SymbolKind.Function,
+				range: this._textSpanToRange(model, token.textSpan),
+				selectionRange: this._textSpanToRange(model, token.nameSpan),
+				tags: []
+			};
+
+			if (containerLabel) result.containerName = containerLabel;
+
+			if (token.children.length > 0) {
+				result.children = token.children.map((child) => convert(child, result.name));
+			}
+
+			return result;
+		};
+
+		return tokens.map((token) => convert(token));
+	}
+
+	/**
+	 * The editor only knows the deprecated symbol tag, so the other modifiers are shown as detail.
+	 */
+	private static _getDetail(modifiers: Set<string>): string {
+		const detail: string[] = [];
+		if (modifiers.has(Kind.exportedModifier)) {
+			detail.push('export');
+		}
+		if (modifiers.has(Kind.staticModifier)) {
+			detail.push('static');
+		}
+		return detail.join(' ');
+	}
+}
+
+function parseKindModifiers(kindModifiers: string | undefined): Set<string> {
+	return new Set(kindModifiers ? kindModifiers.split(/,|\s+/g) : []);
+}
+
 export class Kind {
 	public static unknown: string = '';
 	public static keyword: string = 'keyword';
@@ -943,6 +1699,11 @@ export class Kind {
 	public static const: string = 'const';
 	public static let: string = 'let';
 	public static warning: string = 'warning';
+
+	public static exportedModifier: string = 'export';
+	public static staticModifier: string = 'static';
+	public static abstractModifier: string = 'abstract';
+	public static deprecatedModifier: string = 'deprecated';
 }
 
 let outlineTypeTable: {
@@ -963,203 +1724,1245 @@ outlineTypeTable[Kind.variable] = languages.SymbolKind.Variable;
 outlineTypeTable[Kind.function] = languages.SymbolKind.Function;
 outlineTypeTable[Kind.localFunction] = languages.SymbolKind.Function;
 
-// --- formatting ----
+// keyed by the values of CodeOutlineTokenKind
+let codeOutlineTypeTable: {
+	[kind: string]: languages.SymbolKind;
+} = Object.create(null);
+codeOutlineTypeTable['Class'] = languages.SymbolKind.Class;
+codeOutlineTypeTable['ObjectLiteral'] = languages.SymbolKind.Object;
+codeOutlineTypeTable['Method'] = languages.SymbolKind.Method;
+codeOutlineTypeTable['Constructor'] = languages.SymbolKind.Constructor;
+codeOutlineTypeTable['Function'] = languages.SymbolKind.Function;
+codeOutlineTypeTable['Get'] = languages.SymbolKind.Property;
+codeOutlineTypeTable['Set'] = languages.SymbolKind.Property;
+
+// --- folding ------
+
+export class FoldingAdapter extends Adapter implements languages.FoldingRangeProvider {
+	public async provideFoldingRanges(
+		model: editor.ITextModel,
+		context: languages.FoldingContext,
+		token: CancellationToken
+	): Promise<languages.FoldingRange[] | undefined> {
+		const resource = model.uri;
+		const worker = await this._worker(resource);
 
-export abstract class FormatHelper extends Adapter {
-	protected static _convertOptions(options: languages.FormattingOptions): ts.FormatCodeOptions {
-		return {
-			ConvertTabsToSpaces: options.insertSpaces,
-			TabSize: options.tabSize,
-			IndentSize: options.tabSize,
-			IndentStyle: IndentStyle.Smart,
-			NewLineCharacter: '\n',
-			InsertSpaceAfterCommaDelimiter: true,
-			InsertSpaceAfterSemicolonInForStatements: true,
-			InsertSpaceBeforeAndAfterBinaryOperators: true,
-			InsertSpaceAfterKeywordsInControlFlowStatements: true,
-			InsertSpaceAfterFunctionKeywordForAnonymousFunctions: true,
-			InsertSpaceAfterOpeningAndBeforeClosingNonemptyParenthesis: false,
-			InsertSpaceAfterOpeningAndBeforeClosingNonemptyBrackets: false,
-			InsertSpaceAfterOpeningAndBeforeClosingTemplateStringBraces: false,
-			PlaceOpenBraceOnNewLineForControlBlocks: false,
-			PlaceOpenBraceOnNewLineForFunctions: false
-		};
+		if (model.isDisposed()) {
+			return;
+		}
+
+		const spans = await worker.getOutliningSpans(resource.toString());
+
+		if (!spans || model.isDisposed()) {
+			return;
+		}
+
+		const result: languages.FoldingRange[] = [];
+		for (const span of spans) {
+			const range = this._convertOutliningSpan(model, span);
+			if (range) {
+				result.push(range);
+			}
+		}
+		return result;
 	}
 
-	protected _convertTextChanges(
+	private _convertOutliningSpan(
 		model: editor.ITextModel,
-		change: ts.TextChange
-	): languages.TextEdit {
+		span: ts.OutliningSpan
+	): languages.FoldingRange | undefined {
+		const range = this._textSpanToRange(model, span.textSpan);
+		const start = range.startLineNumber;
+
+		// the comment of a region end is reported as a comment span of its own
+		if (span.kind === 'comment' && /^\s*\/\/\s*#endregion/i.test(model.getLineContent(start))) {
+			return;
+		}
+
+		// keep the line of a closing brace or tag visible, like `}` or `</div>`
+		let end = range.endLineNumber;
+		if (range.endColumn > 1 && end > start) {
+			const lastLine = model.getLineContent(end).slice(0, range.endColumn - 1);
+			if (/^\s*(}|\]|\)|`|<\/[\w.-]*>)/.test(lastLine)) {
+				end--;
+			}
+		}
+
+		if (start >= end) {
+			return;
+		}
+
 		return {
-			text: change.newText,
-			range: this._textSpanToRange(model, change.span)
+			start,
+			end,
+			kind: FoldingAdapter._convertKind(span.kind)
 		};
 	}
+
+	private static _convertKind(kind: string): languages.FoldingRangeKind | undefined {
+		switch (kind) {
+			case 'comment':
+				return languages.FoldingRangeKind.Comment;
+			case 'imports':
+				return languages.FoldingRangeKind.Imports;
+			case 'region':
+				return languages.FoldingRangeKind.Region;
+		}
+		return undefined;
+	}
 }
 
-export class FormatAdapter
-	extends FormatHelper
-	implements languages.DocumentRangeFormattingEditProvider {
-	public async provideDocumentRangeFormattingEdits(
+// --- smart selection ------
+
+export class SelectionRangeAdapter extends Adapter implements languages.SelectionRangeProvider {
+	public async provideSelectionRanges(
 		model: editor.ITextModel,
-		range: Range,
-		options: languages.FormattingOptions,
+		positions: Position[],
 		token: CancellationToken
-	): Promise<languages.TextEdit[] | undefined> {
+	): Promise<languages.SelectionRange[][] | undefined> {
 		const resource = model.uri;
-		const startOffset = model.getOffsetAt({
-			lineNumber: range.startLineNumber,
-			column: range.startColumn
-		});
-		const endOffset = model.getOffsetAt({
-			lineNumber: range.endLineNumber,
-			column: range.endColumn
+		const worker = await this._worker(resource);
+
+		if (model.isDisposed()) {
+			return;
+		}
+
+		const selectionRanges = await Promise.all(
+			positions.map((position) =>
+				worker.getSmartSelectionRange(resource.toString(), model.getOffsetAt(position))
+			)
+		);
+
+		if (model.isDisposed()) {
+			return;
+		}
+
+		return selectionRanges.map((selectionRange) => {
+			const ranges: languages.SelectionRange[] = [];
+			for (let current = selectionRange; current; current = current.parent) {
+				ranges.push({ range: this._textSpanToRange(model, current.textSpan) });
+			}
+			return ranges;
 		});
+	}
+}
+
+// --- linked editing ------
+
+export class LinkedEditingAdapter extends Adapter implements languages.LinkedEditingRangeProvider {
+	public async provideLinkedEditingRanges(
+		model: editor.ITextModel,
+		position: Position,
+		token: CancellationToken
+	): Promise<languages.LinkedEditingRanges | undefined> {
+		const resource = model.uri;
+		const offset = model.getOffsetAt(position);
 		const worker = await this._worker(resource);
 
-		if (model.isDisposed()) {
+		if (model.isDisposed()) {
+			return;
+		}
+
+		const info = await worker.getLinkedEditingRangeAtPosition(resource.toString(), offset);
+
+		if (!info || model.isDisposed()) {
+			return;
+		}
+
+		return {
+			ranges: info.ranges.map((span) => this._textSpanToRange(model, span)),
+			wordPattern: info.wordPattern ? new RegExp(info.wordPattern) : undefined
+		};
+	}
+}
+
+/**
+ * Inserts the closing tag when the `>` of a JSX opening tag is typed.
+ */
+export class JsxClosingTagAdapter extends Adapter {
+	private _disposables: IDisposable[] = [];
+	private _listener: { [uri: string]: IDisposable } = Object.create(null);
+
+	constructor(private _selector: string, worker: (...uris: Uri[]) => Promise<TypeScriptWorker>) {
+		super(worker);
+
+		const onModelAdd = (model: editor.IModel): void => {
+			if (model.getModeId() !== _selector) {
+				return;
+			}
+
+			let handle: number;
+			const changeSubscription = model.onDidChangeContent((event) => {
+				clearTimeout(handle);
+				if (event.isUndoing || event.isRedoing || event.changes.length !== 1) {
+					return;
+				}
+				const change = event.changes[0];
+				if (change.text !== '>' || change.rangeLength !== 0) {
+					return;
+				}
+				const versionId = event.versionId;
+				const position = new Position(
+					change.range.startLineNumber,
+					change.range.startColumn + change.text.length
+				);
+				handle = setTimeout(() => this._insertClosingTag(model, position, versionId), 100);
+			});
+
+			this._listener[model.uri.toString()] = {
+				dispose() {
+					changeSubscription.dispose();
+					clearTimeout(handle);
+				}
+			};
+		};
+
+		const onModelRemoved = (model: editor.IModel): void => {
+			const key = model.uri.toString();
+			if (this._listener[key]) {
+				this._listener[key].dispose();
+				delete this._listener[key];
+			}
+		};
+
+		this._disposables.push(editor.onDidCreateModel(onModelAdd));
+		this._disposables.push(editor.onWillDisposeModel(onModelRemoved));
+		this._disposables.push(
+			editor.onDidChangeModelLanguage((event) => {
+				onModelRemoved(event.model);
+				onModelAdd(event.model);
+			})
+		);
+
+		this._disposables.push({
+			dispose() {
+				for (const model of editor.getModels()) {
+					onModelRemoved(model);
+				}
+			}
+		});
+
+		editor.getModels().forEach(onModelAdd);
+	}
+
+	public dispose(): void {
+		this._disposables.forEach((d) => d && d.dispose());
+		this._disposables = [];
+	}
+
+	private async _insertClosingTag(
+		model: editor.ITextModel,
+		position: Position,
+		versionId: number
+	): Promise<void> {
+		const resource = model.uri;
+		const worker = await this._worker(resource);
+
+		if (model.isDisposed() || model.getVersionId() !== versionId) {
+			return;
+		}
+
+		const closingTag = await worker.getJsxClosingTagAtPosition(
+			resource.toString(),
+			model.getOffsetAt(position)
+		);
+
+		// the user kept typing while the closing tag was computed
+		if (!closingTag || model.isDisposed() || model.getVersionId() !== versionId) {
+			return;
+		}
+
+		// Cursors grow over text inserted right at them, so the character after the cursor is
+		// replaced together with the insertion, which keeps the cursor in front of the tag.
+		let end = position;
+		if (position.column < model.getLineMaxColumn(position.lineNumber)) {
+			end = new Position(position.lineNumber, position.column + 1);
+		} else if (position.lineNumber < model.getLineCount()) {
+			end = new Position(position.lineNumber + 1, 1);
+		}
+		const range = Range.fromPositions(position, end);
+		model.pushEditOperations(
+			[],
+			[{ range, text: closingTag.newText + model.getValueInRange(range) }],
+			() => null
+		);
+	}
+}
+
+// --- links ------
+
+interface DocumentLink extends languages.ILink {
+	target: string;
+}
+
+export class LinkAdapter extends Adapter implements languages.LinkProvider {
+	constructor(
+		private readonly _libFiles: LibFiles,
+		worker: (...uris: Uri[]) => Promise<TypeScriptWorker>
+	) {
+		super(worker);
+	}
+
+	public async provideLinks(
+		model: editor.ITextModel,
+		token: CancellationToken
+	): Promise<languages.ILinksList | undefined> {
+		const resource = model.uri;
+		const worker = await this._worker(resource);
+
+		if (model.isDisposed()) {
+			return;
+		}
+
+		const links = await worker.getDocumentLinks(resource.toString());
+
+		if (!links || model.isDisposed()) {
+			return;
+		}
+
+		return {
+			links: links.map(
+				(link): DocumentLink => ({
+					range: this._textSpanToRange(model, link.textSpan),
+					target: link.target
+				})
+			)
+		};
+	}
+
+	public async resolveLink(
+		link: languages.ILink,
+		token: CancellationToken
+	): Promise<languages.ILink | undefined> {
+		// extra libs only get a model once one of their links is followed
+		const uri = Uri.parse((<DocumentLink>link).target);
+		if (!this._libFiles.getOrCreateModel(uri)) {
+			return;
+		}
+		return { ...link, url: uri };
+	}
+}
+
+// --- code lens ------
+
+interface MyCodeLens extends languages.CodeLens {
+	uri: Uri;
+	offset: number;
+	type: 'references' | 'implementations';
+}
+
+export class CodeLensAdapter extends LocationAdapter implements languages.CodeLensProvider {
+	private _onDidChange = new Emitter<this>();
+
+	constructor(
+		libFiles: LibFiles,
+		private readonly _defaults: LanguageServiceDefaults,
+		worker: (...uris: Uri[]) => Promise<TypeScriptWorker>
+	) {
+		super(libFiles, worker);
+		this._defaults.onDidProviderOptionsChange(() => this._onDidChange.fire(this));
+	}
+
+	public get onDidChange(): IEvent<this> {
+		return this._onDidChange.event;
+	}
+
+	public async provideCodeLenses(
+		model: editor.ITextModel,
+		token: CancellationToken
+	): Promise<languages.CodeLensList | undefined> {
+		const { referencesCodeLens, implementationsCodeLens } = this._defaults.getCodeLensOptions();
+		if (!referencesCodeLens && !implementationsCodeLens) {
+			return;
+		}
+
+		const resource = model.uri;
+		const worker = await this._worker(resource);
+
+		if (model.isDisposed()) {
+			return;
+		}
+
+		const tree = await worker.getNavigationTree(resource.toString());
+
+		if (!tree || model.isDisposed()) {
+			return;
+		}
+
+		const lenses: MyCodeLens[] = [];
+		const addLens = (item: ts.NavigationTree, type: MyCodeLens['type']) => {
+			const span = item.nameSpan || item.spans[0];
+			lenses.push({
+				range: this._textSpanToRange(model, span),
+				uri: resource,
+				offset: span.start,
+				type
+			});
+		};
+		const visit = (item: ts.NavigationTree, parent: ts.NavigationTree | undefined) => {
+			if (referencesCodeLens && CodeLensAdapter._showReferences(item, parent)) {
+				addLens(item, 'references');
+			}
+			if (implementationsCodeLens && CodeLensAdapter._showImplementations(item, parent)) {
+				addLens(item, 'implementations');
+			}
+			for (const child of item.childItems || []) {
+				visit(child, item);
+			}
+		};
+		visit(tree, undefined);
+
+		return { lenses, dispose: () => {} };
+	}
+
+	public async resolveCodeLens(
+		model: editor.ITextModel,
+		codeLens: languages.CodeLens,
+		token: CancellationToken
+	): Promise<languages.CodeLens | undefined> {
+		const { uri, offset, type } = <MyCodeLens>codeLens;
+		const worker = await this._worker(uri);
+
+		if (model.isDisposed()) {
+			return;
+		}
+
+		const entries =
+			type === 'references'
+				? (await worker.getReferencesAtPosition(uri.toString(), offset))?.filter(
+						(entry) => !entry.isDefinition
+				  )
+				: (await worker.getImplementationAtPosition(uri.toString(), offset))?.filter(
+						// an implementation is reported at the declaration of a class itself
+						(entry) => entry.fileName !== uri.toString() || entry.textSpan.start !== offset
+				  );
+
+		const locations = await this._convertLocations(model, entries || []);
+
+		if (!locations) {
+			return;
+		}
+
+		const count = locations.length;
+		const title =
+			type === 'references'
+				? count === 1
+					? '1 reference'
+					: `${count} references`
+				: count === 1
+				? '1 implementation'
+				: `${count} implementations`;
+
+		return {
+			...codeLens,
+			command: {
+				id: count ? 'editor.action.showReferences' : '',
+				title,
+				arguments: [uri, model.getPositionAt(offset), locations]
+			}
+		};
+	}
+
+	private static _showReferences(
+		item: ts.NavigationTree,
+		parent: ts.NavigationTree | undefined
+	): boolean {
+		switch (item.kind) {
+			case Kind.function:
+			case Kind.class:
+			case Kind.interface:
+			case Kind.type:
+			case Kind.enum:
+				return true;
+			case Kind.const:
+			case Kind.let:
+			case Kind.variable:
+				return parseKindModifiers(item.kindModifiers).has(Kind.exportedModifier);
+			case Kind.memberFunction:
+			case Kind.memberGetAccessor:
+			case Kind.memberSetAccessor:
+			case Kind.memberVariable:
+			case Kind.constructorImplementation:
+				return !!parent && (parent.kind === Kind.class || parent.kind === Kind.interface);
+		}
+		return false;
+	}
+
+	private static _showImplementations(
+		item: ts.NavigationTree,
+		parent: ts.NavigationTree | undefined
+	): boolean {
+		switch (item.kind) {
+			case Kind.interface:
+				return true;
+			case Kind.class:
+				return parseKindModifiers(item.kindModifiers).has(Kind.abstractModifier);
+			case Kind.memberFunction:
+			case Kind.memberGetAccessor:
+			case Kind.memberSetAccessor:
+			case Kind.memberVariable:
+				return (
+					!!parent &&
+					(parent.kind === Kind.interface ||
+						parseKindModifiers(item.kindModifiers).has(Kind.abstractModifier))
+				);
+		}
+		return false;
+	}
+}
+
+// --- formatting ----
+
+// how often formatModel computes the edits before giving up on a model which keeps changing
+const maxFormatModelAttempts = 3;
+
+export class DocumentFormatAdapter
+	extends FormatHelper
+	implements languages.DocumentFormattingEditProvider {
+	constructor(
+		private readonly _defaults: LanguageServiceDefaults,
+		worker: (...uris: Uri[]) => Promise<TypeScriptWorker>
+	) {
+		super(worker);
+	}
+
+	public provideDocumentFormattingEdits(
+		model: editor.ITextModel,
+		options: languages.FormattingOptions,
+		token: CancellationToken
+	): Promise<languages.TextEdit[] | undefined> {
+		return this._getFormattingEdits(model, options);
+	}
+
+	/**
+	 * Formats a model which is not necessarily shown in an editor. The edits are computed
+	 * again when the model changes meanwhile, and the promise rejects if it keeps changing
+	 * or is disposed.
+	 */
+	public async formatModel(model: editor.ITextModel): Promise<void> {
+		for (let attempt = 0; attempt < maxFormatModelAttempts; attempt++) {
+			const versionId = model.getVersionId();
+			const edits = await this._getFormattingEdits(model, model.getOptions());
+
+			if (model.isDisposed()) {
+				return Promise.reject(model.uri.toString() + ' was disposed while formatting!');
+			}
+			// the edits were computed for an older version of the model
+			if (model.getVersionId() !== versionId) {
+				continue;
+			}
+			if (edits) {
+				model.pushStackElement();
+				model.pushEditOperations(
+					[],
+					edits.map((edit) => ({ range: edit.range, text: edit.text })),
+					() => null
+				);
+				model.pushStackElement();
+			}
+			return;
+		}
+		return Promise.reject(model.uri.toString() + ' kept changing while formatting!');
+	}
+
+	private async _getFormattingEdits(
+		model: editor.ITextModel,
+		options: languages.FormattingOptions
+	): Promise<languages.TextEdit[] | undefined> {
+		const resource = model.uri;
+		const worker = await this._worker(resource);
+
+		if (model.isDisposed()) {
+			return;
+		}
+
+		const edits = await worker.getFormattingEditsForDocument(
+			resource.toString(),
+			FormatHelper._convertOptions(options, this._defaults.getFormatOptions())
+		);
+
+		if (!edits || model.isDisposed()) {
+			return;
+		}
+
+		return edits.map((edit) => this._convertTextChanges(model, edit));
+	}
+}
+
+export class FormatAdapter
+	extends FormatHelper
+	implements languages.DocumentRangeFormattingEditProvider {
+	constructor(
+		private readonly _defaults: LanguageServiceDefaults,
+		worker: (...uris: Uri[]) => Promise<TypeScriptWorker>
+	) {
+		super(worker);
+	}
+
+	public async provideDocumentRangeFormattingEdits(
+		model: editor.ITextModel,
+		range: Range,
+		options: languages.FormattingOptions,
+		token: CancellationToken
+	): Promise<languages.TextEdit[] | undefined> {
+		const resource = model.uri;
+		const startOffset = model.getOffsetAt({
+			lineNumber: range.startLineNumber,
+			column: range.startColumn
+		});
+		const endOffset = model.getOffsetAt({
+			lineNumber: range.endLineNumber,
+			column: range.endColumn
+		});
+		const worker = await this._worker(resource);
+
+		if (model.isDisposed()) {
+			return;
+		}
+
+		const edits = await worker.getFormattingEditsForRange(
+			resource.toString(),
+			startOffset,
+			endOffset,
+			FormatHelper._convertOptions(options, this._defaults.getFormatOptions())
+		);
+
+		if (!edits || model.isDisposed()) {
+			return;
+		}
+
+		return edits.map((edit) => this._convertTextChanges(model, edit));
+	}
+}
+
+export class FormatOnTypeAdapter
+	extends FormatHelper
+	implements languages.OnTypeFormattingEditProvider {
+	constructor(
+		private readonly _defaults: LanguageServiceDefaults,
+		worker: (...uris: Uri[]) => Promise<TypeScriptWorker>
+	) {
+		super(worker);
+	}
+
+	get autoFormatTriggerCharacters() {
+		return [';', '}', '\n'];
+	}
+
+	public async provideOnTypeFormattingEdits(
+		model: editor.ITextModel,
+		position: Position,
+		ch: string,
+		options: languages.FormattingOptions,
+		token: CancellationToken
+	): Promise<languages.TextEdit[] | undefined> {
+		const resource = model.uri;
+		const offset = model.getOffsetAt(position);
+		const worker = await this._worker(resource);
+
+		if (model.isDisposed()) {
+			return;
+		}
+
+		const edits = await worker.getFormattingEditsAfterKeystroke(
+			resource.toString(),
+			offset,
+			ch,
+			FormatHelper._convertOptions(options, this._defaults.getFormatOptions())
+		);
+
+		if (!edits || model.isDisposed()) {
+			return;
+		}
+
+		return edits.map((edit) => this._convertTextChanges(model, edit));
+	}
+}
+
+// --- code actions ------
+
+interface NewFile {
+	uri: Uri;
+	content: string;
+}
+
+/**
+ * Whether a request for code actions of the kind `only` may be answered with actions of `kind`.
+ */
+function codeActionKindMatches(only: string | undefined, kind: string): boolean {
+	return !only || only === kind || kind.indexOf(only + '.') === 0 || only.indexOf(kind + '.') === 0;
+}
+
+/**
+ * Applies the text edits directly to the models, like the standalone editor
+ * does with the edits of a code action.
+ */
+function applyWorkspaceTextEdits(edits: languages.WorkspaceTextEdit[]): void {
+	const operationsByModel = new Map<editor.ITextModel, editor.IIdentifiedSingleEditOperation[]>();
+	for (const edit of edits) {
+		const model = editor.getModel(edit.resource);
+		if (!model) {
+			continue;
+		}
+		let operations = operationsByModel.get(model);
+		if (!operations) {
+			operations = [];
+			operationsByModel.set(model, operations);
+		}
+		operations.push({ range: edit.edit.range, text: edit.edit.text });
+	}
+	operationsByModel.forEach((operations, model) => {
+		model.pushStackElement();
+		model.pushEditOperations([], operations, () => null);
+		model.pushStackElement();
+	});
+}
+
+export class CodeActionAdaptor extends FormatHelper implements languages.CodeActionProvider {
+	private readonly _createFilesCommandId: string;
+	private readonly _applyRefactorCommandId: string;
+	private readonly _fixAllOfKindCommandId: string;
+	private readonly _organizeImportsCommandId: string;
+	private readonly _fixAllCommandId: string;
+
+	constructor(
+		private readonly _libFiles: LibFiles,
+		private readonly _defaults: LanguageServiceDefaults,
+		// the editors which can show the rename widget after a refactoring
+		private readonly _codeEditors: CodeEditors,
+		private readonly _modeId: string,
+		worker: (...uris: Uri[]) => Promise<TypeScriptWorker>
+	) {
+		super(worker);
+
+		// new files are created through a command which runs after the text edits got applied
+		this._createFilesCommandId = `_${this._modeId}.createFiles`;
+		editor.registerCommand(this._createFilesCommandId, (_accessor, files: NewFile[]) =>
+			this._createFiles(files)
+		);
+
+		// refactorings are expensive to compute, so their edits are only computed once picked
+		this._applyRefactorCommandId = `_${this._modeId}.applyRefactor`;
+		editor.registerCommand(
+			this._applyRefactorCommandId,
+			(
+				_accessor,
+				uri: Uri,
+				versionId: number,
+				start: number,
+				end: number,
+				refactorName: string,
+				actionName: string
+			) => this._applyRefactor(uri, versionId, start, end, refactorName, actionName)
+		);
+
+		this._fixAllOfKindCommandId = `_${this._modeId}.fixAllOfKind`;
+		editor.registerCommand(this._fixAllOfKindCommandId, (_accessor, uri: Uri, fixId: {}) =>
+			this._applyCombinedCodeFix(uri, fixId)
+		);
+
+		// public commands, which can also be invoked with `editor.trigger(source, id, model.uri)`
+		this._organizeImportsCommandId = `${this._modeId}.organizeImports`;
+		editor.registerCommand(this._organizeImportsCommandId, (_accessor, uri: Uri) =>
+			this._organizeImports(uri)
+		);
+		this._fixAllCommandId = `${this._modeId}.fixAll`;
+		editor.registerCommand(this._fixAllCommandId, (_accessor, uri: Uri) => this._fixAll(uri));
+	}
+
+	public async provideCodeActions(
+		model: editor.ITextModel,
+		range: Range,
+		context: languages.CodeActionContext,
+		token: CancellationToken
+	): Promise<languages.CodeActionList | undefined> {
+		const resource = model.uri;
+		const start = model.getOffsetAt({
+			lineNumber: range.startLineNumber,
+			column: range.startColumn
+		});
+		const end = model.getOffsetAt({
+			lineNumber: range.endLineNumber,
+			column: range.endColumn
+		});
+		const formatOptions = FormatHelper._convertOptions(
+			model.getOptions(),
+			this._defaults.getFormatOptions()
+		);
+		const errorCodes = context.markers
+			.filter((m) => m.code)
+			.map((m) => m.code)
+			.map(Number);
+		const worker = await this._worker(resource);
+
+		if (model.isDisposed()) {
+			return;
+		}
+
+		const canCreateFiles = !!this._defaults.getFileOperationsHost();
+		const actions: languages.CodeAction[] = [];
+
+		if (codeActionKindMatches(context.only, 'quickfix')) {
+			// the fixes are requested per error code, to know which problems a fix-all would fix
+			const distinctErrorCodes = errorCodes.filter((code, i) => errorCodes.indexOf(code) === i);
+			const codeFixesByErrorCode = await Promise.all(
+				distinctErrorCodes.map((errorCode) =>
+					worker.getCodeFixesAtPosition(resource.toString(), start, end, [errorCode], formatOptions)
+				)
+			);
+
+			if (model.isDisposed()) {
+				return { actions: [], dispose: () => {} };
+			}
+
+			const codeFixes = codeFixesByErrorCode.reduce((p, c) => p.concat(c || []), []);
+
+			codeFixes
+				.filter((fix) => {
+					// Removes any 'make a new file'-type code fix, unless the host can create files
+					return canCreateFiles || fix.changes.filter((change) => change.isNewFile).length === 0;
+				})
+				.forEach((fix) => {
+					actions.push(this._tsCodeFixActionToMonacoCodeAction(model, context, fix));
+				});
+
+			actions.push(...(await this._getUnknownEntityFixes(model, context, worker)));
+
+			// only offer to fix all problems of a kind if there is more than one in the file
+			const fileMarkers = editor.getModelMarkers({ owner: this._modeId, resource });
+			const fixIds: {}[] = [];
+			distinctErrorCodes.forEach((errorCode, i) => {
+				const problemCount = fileMarkers.filter((marker) => Number(marker.code) === errorCode)
+					.length;
+				if (problemCount <= 1) {
+					return;
+				}
+				for (const fix of codeFixesByErrorCode[i] || []) {
+					if (fix.fixId && fix.fixAllDescription && fixIds.indexOf(fix.fixId) === -1) {
+						fixIds.push(fix.fixId);
+						actions.push({
+							title: fix.fixAllDescription,
+							command: {
+								id: this._fixAllOfKindCommandId,
+								title: fix.fixAllDescription,
+								arguments: [resource, fix.fixId]
+							},
+							diagnostics: context.markers.filter((marker) => Number(marker.code) === errorCode),
+							kind: 'quickfix'
+						});
+					}
+				}
+			});
+		}
+
+		if (codeActionKindMatches(context.only, 'refactor')) {
+			const refactors = await worker.getApplicableRefactors(
+				resource.toString(),
+				start,
+				end,
+				context.only ? 'invoked' : 'implicit',
+				{ allowTextChangesInNewFiles: canCreateFiles }
+			);
+
+			if (model.isDisposed()) {
+				return;
+			}
+
+			for (const refactor of refactors) {
+				for (const refactorAction of refactor.actions) {
+					actions.push(
+						this._tsRefactorActionToMonacoCodeAction(model, start, end, refactor, refactorAction)
+					);
+				}
+			}
+		}
+
+		// source actions are only offered when explicitly requested, e.g. by `editor.action.fixAll`
+		if (context.only && codeActionKindMatches(context.only, 'source.organizeImports')) {
+			actions.push({
+				title: 'Organize Imports',
+				command: {
+					id: this._organizeImportsCommandId,
+					title: 'Organize Imports',
+					arguments: [resource]
+				},
+				kind: 'source.organizeImports'
+			});
+		}
+		if (context.only && codeActionKindMatches(context.only, 'source.fixAll.ts')) {
+			actions.push({
+				title: 'Fix All',
+				command: {
+					id: this._fixAllCommandId,
+					title: 'Fix All',
+					arguments: [resource]
+				},
+				kind: 'source.fixAll.ts'
+			});
+		}
+
+		return {
+			actions: actions,
+			dispose: () => {}
+		};
+	}
+
+	private async _getUnknownEntityFixes(
+		model: editor.ITextModel,
+		context: languages.CodeActionContext,
+		worker: TypeScriptWorker
+	): Promise<languages.CodeAction[]> {
+		const markers = context.markers.filter(
+			(marker) => marker.code === String(unknownEntityDiagnosticCode)
+		);
+		const { knownEntityNames, keyRules } = this._defaults.getEntityOptions();
+		if (markers.length === 0 || !knownEntityNames) {
+			return [];
+		}
+
+		const references = await worker.getEntityReferences(
+			model.uri.toString(),
+			Object.keys(knownEntityNames),
+			keyRules
+		);
+
+		if (model.isDisposed()) {
+			return [];
+		}
+
+		const actions: languages.CodeAction[] = [];
+		for (const marker of markers) {
+			const start = model.getOffsetAt({
+				lineNumber: marker.startLineNumber,
+				column: marker.startColumn
+			});
+			// a key with a union type references several entities at the same span
+			const reference = references.filter(
+				(reference) =>
+					reference.nameSpan.start === start &&
+					getUnknownEntityMessage(reference) === marker.message
+			)[0];
+			if (!reference) {
+				continue;
+			}
+			const range = this._textSpanToRange(model, reference.nameSpan);
+			const nameText = model.getValueInRange(range);
+			const names = getClosestNames(reference.entity, knownEntityNames[reference.collection] || []);
+			for (const name of names) {
+				const text = this._replaceEntityName(reference.nameKind, nameText, name);
+				if (text !== undefined) {
+					actions.push({
+						title: `Change to '${name}'`,
+						edit: { edits: [{ resource: model.uri, edit: { range, text } }] },
+						diagnostics: [marker],
+						kind: 'quickfix'
+					});
+				}
+			}
+		}
+		return actions;
+	}
+
+	/**
+	 * Get the text which replaces the name of an entity, keeping the quotes of string keys.
+	 * Property names can only be replaced by names which are identifiers as well, and shorthand
+	 * bindings keep their local name, e.g. `{ Foo }` becomes `{ Bar: Foo }`. Other keys, like
+	 * variables, are not replaced since the entity is not written in the code.
+	 */
+	private _replaceEntityName(
+		nameKind: EntityReferenceInfo['nameKind'],
+		nameText: string,
+		name: string
+	): string | undefined {
+		const quoteName = (quote: string) => quote + escapeEntityName(name, quote) + quote;
+		switch (nameKind) {
+			case 'literal':
+				return quoteName(nameText[0]);
+			case 'name':
+				return identifierPattern.test(name) ? name : undefined;
+			case 'shorthand':
+				const quote =
+					this._defaults.getCompletionOptions().quotePreference === 'single' ? "'" : '"';
+				const propertyName = identifierPattern.test(name) ? name : quoteName(quote);
+				return `${propertyName}: ${nameText}`;
+			default:
+				return undefined;
+		}
+	}
+
+	private _tsCodeFixActionToMonacoCodeAction(
+		model: editor.ITextModel,
+		context: languages.CodeActionContext,
+		codeFix: ts.CodeFixAction
+	): languages.CodeAction {
+		const action: languages.CodeAction = {
+			title: codeFix.description,
+			edit: { edits: this._fileTextChangesToWorkspaceTextEdits(codeFix.changes) },
+			command: this._fileTextChangesToCreateFilesCommand(codeFix.changes),
+			diagnostics: context.markers,
+			kind: 'quickfix'
+		};
+
+		return action;
+	}
+
+	private _tsRefactorActionToMonacoCodeAction(
+		model: editor.ITextModel,
+		start: number,
+		end: number,
+		refactor: ts.ApplicableRefactorInfo,
+		refactorAction: ts.RefactorActionInfo
+	): languages.CodeAction {
+		return {
+			title: refactorAction.description,
+			command: {
+				id: this._applyRefactorCommandId,
+				title: refactorAction.description,
+				arguments: [model.uri, model.getVersionId(), start, end, refactor.name, refactorAction.name]
+			},
+			kind: refactorAction.kind || 'refactor',
+			disabled: refactorAction.notApplicableReason
+		};
+	}
+
+	private async _applyRefactor(
+		uri: Uri,
+		versionId: number,
+		start: number,
+		end: number,
+		refactorName: string,
+		actionName: string
+	): Promise<void> {
+		const model = editor.getModel(uri);
+		if (!model) {
+			return;
+		}
+		// the offsets are only valid for the version the refactoring was offered for
+		const isStale = () => model.isDisposed() || model.getVersionId() !== versionId;
+		if (isStale()) {
 			return;
 		}
+		const worker = await this._worker(uri);
 
-		const edits = await worker.getFormattingEditsForRange(
-			resource.toString(),
-			startOffset,
-			endOffset,
-			FormatHelper._convertOptions(options)
+		if (isStale()) {
+			return;
+		}
+
+		const editInfo = await worker.getEditsForRefactor(
+			uri.toString(),
+			FormatHelper._convertOptions(model.getOptions(), this._defaults.getFormatOptions()),
+			start,
+			end,
+			refactorName,
+			actionName,
+			{ allowTextChangesInNewFiles: !!this._defaults.getFileOperationsHost() }
 		);
 
-		if (!edits || model.isDisposed()) {
+		if (!editInfo || isStale()) {
 			return;
 		}
 
-		return edits.map((edit) => this._convertTextChanges(model, edit));
+		applyWorkspaceTextEdits(this._fileTextChangesToWorkspaceTextEdits(editInfo.edits));
+		await this._createFiles(CodeActionAdaptor._getNewFiles(editInfo.edits));
+
+		if (editInfo.renameFilename !== undefined && editInfo.renameLocation !== undefined) {
+			this._triggerRename(Uri.parse(editInfo.renameFilename), editInfo.renameLocation);
+		}
 	}
-}
 
-export class FormatOnTypeAdapter
-	extends FormatHelper
-	implements languages.OnTypeFormattingEditProvider {
-	get autoFormatTriggerCharacters() {
-		return [';', '}', '\n'];
+	/**
+	 * Let the user name what a refactoring extracted, e.g. the new function.
+	 */
+	private _triggerRename(uri: Uri, offset: number): void {
+		const model = editor.getModel(uri);
+		if (!model) {
+			return;
+		}
+		const editors = this._codeEditors
+			.getEditors()
+			.filter((codeEditor) => codeEditor.getModel() === model);
+		const codeEditor = editors.filter((codeEditor) => codeEditor.hasTextFocus())[0] || editors[0];
+		if (!codeEditor) {
+			return;
+		}
+		const position = model.getPositionAt(offset);
+		codeEditor.setPosition(position);
+		codeEditor.revealPositionInCenterIfOutsideViewport(position);
+		codeEditor.trigger('refactor', 'editor.action.rename', null);
 	}
 
-	public async provideOnTypeFormattingEdits(
-		model: editor.ITextModel,
-		position: Position,
-		ch: string,
-		options: languages.FormattingOptions,
-		token: CancellationToken
-	): Promise<languages.TextEdit[] | undefined> {
-		const resource = model.uri;
-		const offset = model.getOffsetAt(position);
-		const worker = await this._worker(resource);
+	private async _organizeImports(uri: Uri): Promise<void> {
+		const model = editor.getModel(uri);
+		if (!model) {
+			return;
+		}
+		const worker = await this._worker(uri);
 
 		if (model.isDisposed()) {
 			return;
 		}
 
-		const edits = await worker.getFormattingEditsAfterKeystroke(
-			resource.toString(),
-			offset,
-			ch,
-			FormatHelper._convertOptions(options)
+		const changes = await worker.organizeImports(
+			uri.toString(),
+			FormatHelper._convertOptions(model.getOptions(), this._defaults.getFormatOptions())
 		);
 
-		if (!edits || model.isDisposed()) {
+		if (!changes || model.isDisposed()) {
 			return;
 		}
 
-		return edits.map((edit) => this._convertTextChanges(model, edit));
+		applyWorkspaceTextEdits(this._fileTextChangesToWorkspaceTextEdits(changes));
 	}
-}
 
-// --- code actions ------
+	private async _fixAll(uri: Uri): Promise<void> {
+		const model = editor.getModel(uri);
+		if (!model) {
+			return;
+		}
+		const worker = await this._worker(uri);
 
-export class CodeActionAdaptor extends FormatHelper implements languages.CodeActionProvider {
-	public async provideCodeActions(
-		model: editor.ITextModel,
-		range: Range,
-		context: languages.CodeActionContext,
-		token: CancellationToken
-	): Promise<languages.CodeActionList | undefined> {
-		const resource = model.uri;
-		const start = model.getOffsetAt({
-			lineNumber: range.startLineNumber,
-			column: range.startColumn
-		});
-		const end = model.getOffsetAt({
-			lineNumber: range.endLineNumber,
-			column: range.endColumn
+		if (model.isDisposed()) {
+			return;
+		}
+
+		// the combinable fixes which TS offers for the problems in the file, asked
+		// for once per kind of problem
+		const formatOptions = FormatHelper._convertOptions(
+			model.getOptions(),
+			this._defaults.getFormatOptions()
+		);
+		const markersByErrorCode = new Map<number, editor.IMarker>();
+		for (const marker of editor.getModelMarkers({ owner: this._modeId, resource: uri })) {
+			const errorCode = Number(marker.code);
+			if (marker.code && !isNaN(errorCode) && !markersByErrorCode.has(errorCode)) {
+				markersByErrorCode.set(errorCode, marker);
+			}
+		}
+		const requests: Promise<readonly ts.CodeFixAction[]>[] = [];
+		markersByErrorCode.forEach((marker, errorCode) => {
+			requests.push(
+				worker.getCodeFixesAtPosition(
+					uri.toString(),
+					model.getOffsetAt({ lineNumber: marker.startLineNumber, column: marker.startColumn }),
+					model.getOffsetAt({ lineNumber: marker.endLineNumber, column: marker.endColumn }),
+					[errorCode],
+					formatOptions
+				)
+			);
 		});
-		const formatOptions = FormatHelper._convertOptions(model.getOptions());
-		const errorCodes = context.markers
-			.filter((m) => m.code)
-			.map((m) => m.code)
-			.map(Number);
-		const worker = await this._worker(resource);
+		const codeFixes = await Promise.all(requests);
 
 		if (model.isDisposed()) {
 			return;
 		}
 
-		const codeFixes = await worker.getCodeFixesAtPosition(
-			resource.toString(),
-			start,
-			end,
-			errorCodes,
-			formatOptions
-		);
+		const fixIds: {}[] = [];
+		for (const fix of codeFixes.reduce((p, c) => p.concat(c || []), [])) {
+			if (fix.fixId && fix.fixAllDescription && fixIds.indexOf(fix.fixId) === -1) {
+				fixIds.push(fix.fixId);
+			}
+		}
 
-		if (!codeFixes || model.isDisposed()) {
-			return { actions: [], dispose: () => {} };
+		// the fixes are applied one after the other, since their edits might overlap
+		for (const fixId of fixIds) {
+			await this._applyCombinedCodeFix(uri, fixId);
 		}
+	}
 
-		const actions = codeFixes
-			.filter((fix) => {
-				// Removes any 'make a new file'-type code fix
-				return fix.changes.filter((change) => change.isNewFile).length === 0;
-			})
-			.map((fix) => {
-				return this._tsCodeFixActionToMonacoCodeAction(model, context, fix);
-			});
+	private async _applyCombinedCodeFix(uri: Uri, fixId: {}): Promise<void> {
+		const model = editor.getModel(uri);
+		if (!model) {
+			return;
+		}
+		const worker = await this._worker(uri);
 
-		return {
-			actions: actions,
-			dispose: () => {}
-		};
+		if (model.isDisposed()) {
+			return;
+		}
+
+		const combinedCodeActions = await worker.getCombinedCodeFix(
+			uri.toString(),
+			fixId,
+			FormatHelper._convertOptions(model.getOptions(), this._defaults.getFormatOptions())
+		);
+
+		if (!combinedCodeActions || model.isDisposed()) {
+			return;
+		}
+
+		applyWorkspaceTextEdits(this._fileTextChangesToWorkspaceTextEdits(combinedCodeActions.changes));
 	}
 
-	private _tsCodeFixActionToMonacoCodeAction(
-		model: editor.ITextModel,
-		context: languages.CodeActionContext,
-		codeFix: ts.CodeFixAction
-	): languages.CodeAction {
+	private _fileTextChangesToWorkspaceTextEdits(
+		changes: readonly ts.FileTextChanges[]
+	): languages.WorkspaceTextEdit[] {
 		const edits: languages.WorkspaceTextEdit[] = [];
-		for (const change of codeFix.changes) {
+		for (const change of changes) {
+			if (change.isNewFile) {
+				continue;
+			}
+			const resource = Uri.parse(change.fileName);
+			const changeModel = this._libFiles.getOrCreateModel(resource);
+			if (!changeModel) {
+				continue;
+			}
 			for (const textChange of change.textChanges) {
 				edits.push({
-					resource: model.uri,
+					resource,
 					edit: {
-						range: this._textSpanToRange(model, textChange.span),
+						range: this._textSpanToRange(changeModel, textChange.span),
 						text: textChange.newText
 					}
 				});
 			}
 		}
+		return edits;
+	}
 
-		const action: languages.CodeAction = {
-			title: codeFix.description,
-			edit: { edits: edits },
-			diagnostics: context.markers,
-			kind: 'quickfix'
+	private static _getNewFiles(changes: readonly ts.FileTextChanges[]): NewFile[] {
+		return changes
+			.filter((change) => change.isNewFile)
+			.map((change) => ({
+				uri: Uri.parse(change.fileName),
+				content: change.textChanges.map((textChange) => textChange.newText).join('')
+			}));
+	}
+
+	private _fileTextChangesToCreateFilesCommand(
+		changes: readonly ts.FileTextChanges[]
+	): languages.Command | undefined {
+		const newFiles = CodeActionAdaptor._getNewFiles(changes);
+		if (newFiles.length === 0) {
+			return undefined;
+		}
+		return {
+			id: this._createFilesCommandId,
+			title: 'Create files',
+			arguments: [newFiles]
 		};
+	}
 
-		return action;
+	private async _createFiles(files: NewFile[]): Promise<void> {
+		const host = this._defaults.getFileOperationsHost();
+		if (!host) {
+			return;
+		}
+		for (const file of files) {
+			await host.createFile(file.uri, file.content);
+		}
 	}
 }
 // --- rename ----
 
-export class RenameAdapter extends Adapter implements languages.RenameProvider {
+export class RenameAdapter extends FormatHelper implements languages.RenameProvider {
+	constructor(
+		private readonly _libFiles: LibFiles,
+		private readonly _defaults: LanguageServiceDefaults,
+		worker: (...uris: Uri[]) => Promise<TypeScriptWorker>
+	) {
+		super(worker);
+	}
+
 	public async provideRenameEdits(
 		model: editor.ITextModel,
 		position: Position,
@@ -1175,8 +2978,9 @@ export class RenameAdapter extends Adapter implements languages.RenameProvider {
 			return;
 		}
 
+		const fileOperationsHost = this._defaults.getFileOperationsHost();
 		const renameInfo = await worker.getRenameInfo(fileName, offset, {
-			allowRenameOfImportPath: false
+			allowRenameOfImportPath: !!fileOperationsHost
 		});
 		if (renameInfo.canRename === false) {
 			// use explicit comparison so that the discriminated union gets resolved properly
@@ -1186,7 +2990,13 @@ export class RenameAdapter extends Adapter implements languages.RenameProvider {
 			};
 		}
 		if (renameInfo.fileToRename !== undefined) {
-			throw new Error('Renaming files is not supported.');
+			if (!fileOperationsHost) {
+				return {
+					edits: [],
+					rejectReason: 'Renaming files is not supported.'
+				};
+			}
+			return this._renameFile(model, renameInfo.fileToRename, newName, fileOperationsHost, token);
 		}
 
 		const renameLocations = await worker.findRenameLocations(
@@ -1201,23 +3011,322 @@ export class RenameAdapter extends Adapter implements languages.RenameProvider {
 			return;
 		}
 
+		// Fetch lib files if necessary
+		await this._libFiles.fetchLibFilesIfNecessary(
+			renameLocations.map((renameLocation) => Uri.parse(renameLocation.fileName))
+		);
+
+		if (model.isDisposed()) {
+			return;
+		}
+
 		const edits: languages.WorkspaceTextEdit[] = [];
 		for (const renameLocation of renameLocations) {
 			const resource = Uri.parse(renameLocation.fileName);
-			const model = editor.getModel(resource);
-			if (model) {
+			if (this._libFiles.isLibFile(resource)) {
+				const libFileName = resource.path.slice(1);
+				return {
+					edits: [],
+					rejectReason: `Cannot rename symbols declared in the library file ${libFileName}.`
+				};
+			}
+			if (this._libFiles.isReadOnly(resource)) {
+				return {
+					edits: [],
+					rejectReason: `Cannot rename symbols declared in the extra lib ${resource}.`
+				};
+			}
+			const model = this._libFiles.getOrCreateModel(resource);
+			if (!model) {
+				return {
+					edits: [],
+					rejectReason: `Cannot rename symbols in the unknown file ${resource}.`
+				};
+			}
+			edits.push({
+				resource,
+				edit: {
+					range: this._textSpanToRange(model, renameLocation.textSpan),
+					text: newName
+				}
+			});
+		}
+
+		return { edits };
+	}
+
+	private async _renameFile(
+		model: editor.ITextModel,
+		fileToRename: string,
+		newName: string,
+		host: FileOperationsHost,
+		token: CancellationToken
+	): Promise<(languages.WorkspaceEdit & languages.Rejection) | undefined> {
+		// the new name replaces the last segment of the import path, which has no extension
+		const directory = fileToRename.substr(0, fileToRename.lastIndexOf('/') + 1);
+		const oldBaseName = fileToRename.substr(directory.length);
+		const extensionIndex = oldBaseName.lastIndexOf('.');
+		const newFileName =
+			directory +
+			(newName.indexOf('.') === -1 && extensionIndex !== -1
+				? newName + oldBaseName.substr(extensionIndex)
+				: newName);
+
+		// the edits are computed for the current versions of the models
+		const versionIds = new Map<editor.ITextModel, number>();
+		editor.getModels().forEach((m) => versionIds.set(m, m.getVersionId()));
+
+		const worker = await this._worker(model.uri);
+		const fileChanges = await worker.getEditsForFileRename(
+			fileToRename,
+			newFileName,
+			FormatHelper._convertOptions(model.getOptions(), this._defaults.getFormatOptions())
+		);
+
+		if (model.isDisposed() || token.isCancellationRequested) {
+			return;
+		}
+
+		const edits: languages.WorkspaceTextEdit[] = [];
+		for (const change of fileChanges) {
+			const resource = Uri.parse(change.fileName);
+			if (this._libFiles.isReadOnly(resource)) {
+				return {
+					edits: [],
+					rejectReason: `Cannot update the imports in the extra lib ${resource}.`
+				};
+			}
+			const changeModel = editor.getModel(resource);
+			if (!changeModel) {
+				return {
+					edits: [],
+					rejectReason: `Cannot update the imports in ${resource}, which has no model.`
+				};
+			}
+			if (versionIds.get(changeModel) !== changeModel.getVersionId()) {
+				return {
+					edits: [],
+					rejectReason: `Cannot update the imports in ${resource}, which changed in the meantime.`
+				};
+			}
+			for (const textChange of change.textChanges) {
 				edits.push({
 					resource,
 					edit: {
-						range: this._textSpanToRange(model, renameLocation.textSpan),
-						text: newName
+						range: this._textSpanToRange(changeModel, textChange.span),
+						text: textChange.newText
 					}
 				});
-			} else {
-				throw new Error(`Unknown URI ${resource}.`);
 			}
 		}
 
-		return { edits };
+		// the editor doesn't report whether the returned edits got applied, so they are applied
+		// here, before the file is renamed: the renamed file is edited through its old model,
+		// which the host then moves
+		applyWorkspaceTextEdits(edits);
+		await host.renameFile(Uri.parse(fileToRename), Uri.parse(newFileName));
+		return { edits: [] };
+	}
+}
+
+// --- semantic tokens ------
+
+/**
+ * Layout of a classification in the TS 2020 format:
+ * `((tokenType + 1) << typeOffset) + tokenModifierSet`
+ */
+enum TokenEncodingConsts {
+	typeOffset = 8,
+	modifierMask = (1 << typeOffset) - 1
+}
+
+// the order must match TS' `TokenType` and `TokenModifier` enums
+const semanticTokenTypes = [
+	'class',
+	'enum',
+	'interface',
+	'namespace',
+	'typeParameter',
+	'type',
+	'parameter',
+	'variable',
+	'enumMember',
+	'property',
+	'function',
+	'method'
+];
+const semanticTokenModifiers = [
+	'declaration',
+	'static',
+	'async',
+	'readonly',
+	'defaultLibrary',
+	'local',
+	// not produced by the classifier, added from the deprecation suggestions
+	'deprecated'
+];
+
+export class SemanticTokensAdapter
+	extends Adapter
+	implements
+		languages.DocumentSemanticTokensProvider,
+		languages.DocumentRangeSemanticTokensProvider {
+	private _onDidChange = new Emitter<void>();
+	// the deprecated spans of the last version of each model, shared by document and range requests
+	private _deprecatedSpans = new WeakMap<
+		editor.ITextModel,
+		{ versionId: number; spans: Promise<{ [start: number]: number }> }
+	>();
+
+	constructor(
+		private readonly _defaults: LanguageServiceDefaults,
+		worker: (...uris: Uri[]) => Promise<TypeScriptWorker>
+	) {
+		super(worker);
+		// the other provider options don't affect the tokens
+		let enabled = this._defaults.getSemanticTokensOptions().enabled;
+		this._defaults.onDidProviderOptionsChange(() => {
+			const options = this._defaults.getSemanticTokensOptions();
+			if (options.enabled !== enabled) {
+				enabled = options.enabled;
+				this._onDidChange.fire(undefined);
+			}
+		});
+	}
+
+	public get onDidChange(): IEvent<void> {
+		return this._onDidChange.event;
+	}
+
+	public getLegend(): languages.SemanticTokensLegend {
+		return {
+			tokenTypes: semanticTokenTypes,
+			tokenModifiers: semanticTokenModifiers
+		};
+	}
+
+	public async provideDocumentSemanticTokens(
+		model: editor.ITextModel,
+		lastResultId: string | null,
+		token: CancellationToken
+	): Promise<languages.SemanticTokens | undefined> {
+		return this._provideSemanticTokens(model, model.getFullModelRange());
+	}
+
+	public releaseDocumentSemanticTokens(resultId: string | undefined): void {}
+
+	public async provideDocumentRangeSemanticTokens(
+		model: editor.ITextModel,
+		range: Range,
+		token: CancellationToken
+	): Promise<languages.SemanticTokens | undefined> {
+		return this._provideSemanticTokens(model, range);
+	}
+
+	private async _provideSemanticTokens(
+		model: editor.ITextModel,
+		range: IRange
+	): Promise<languages.SemanticTokens | undefined> {
+		if (this._defaults.getSemanticTokensOptions().enabled === false) {
+			return;
+		}
+
+		const resource = model.uri;
+		const start = model.getOffsetAt({
+			lineNumber: range.startLineNumber,
+			column: range.startColumn
+		});
+		const end = model.getOffsetAt({
+			lineNumber: range.endLineNumber,
+			column: range.endColumn
+		});
+		const worker = await this._worker(resource);
+
+		if (model.isDisposed()) {
+			return;
+		}
+
+		const [classifications, deprecatedSpans] = await Promise.all([
+			worker.getEncodedSemanticClassifications(resource.toString(), start, end - start),
+			this._getDeprecatedSpans(model, worker)
+		]);
+
+		if (!classifications || model.isDisposed()) {
+			return;
+		}
+
+		const deprecatedModifier = 1 << semanticTokenModifiers.indexOf('deprecated');
+
+		// monaco expects 5 relative integers per token:
+		// deltaLine, deltaStartCharacter, length, tokenType, tokenModifierSet
+		const data: number[] = [];
+		const spans = classifications.spans;
+		let prevLine = 0;
+		let prevCharacter = 0;
+		for (let i = 0; i + 2 < spans.length; i += 3) {
+			const offset = spans[i];
+			const length = spans[i + 1];
+			const classification = spans[i + 2];
+
+			const tokenType = (classification >> TokenEncodingConsts.typeOffset) - 1;
+			if (tokenType < 0) {
+				continue;
+			}
+			let tokenModifiers = classification & TokenEncodingConsts.modifierMask;
+			if (deprecatedSpans[offset] === length) {
+				tokenModifiers |= deprecatedModifier;
+			}
+
+			const { lineNumber, column } = model.getPositionAt(offset);
+			const line = lineNumber - 1;
+			const character = column - 1;
+			data.push(
+				line - prevLine,
+				line === prevLine ? character - prevCharacter : character,
+				length,
+				tokenType,
+				tokenModifiers
+			);
+			prevLine = line;
+			prevCharacter = character;
+		}
+
+		return {
+			data: new Uint32Array(data)
+		};
+	}
+
+	/**
+	 * The lengths of the deprecated symbols by their offsets, computed from the suggestion
+	 * diagnostics once per model version.
+	 */
+	private _getDeprecatedSpans(
+		model: editor.ITextModel,
+		worker: TypeScriptWorker
+	): Promise<{ [start: number]: number }> {
+		const versionId = model.getVersionId();
+		const cached = this._deprecatedSpans.get(model);
+		if (cached && cached.versionId === versionId) {
+			return cached.spans;
+		}
+
+		const spans = worker.getSuggestionDiagnostics(model.uri.toString()).then((suggestions) => {
+			const deprecatedSpans: { [start: number]: number } = Object.create(null);
+			for (const diag of suggestions) {
+				if (diag.reportsDeprecated && diag.start !== undefined) {
+					deprecatedSpans[diag.start] = diag.length || 0;
+				}
+			}
+			return deprecatedSpans;
+		});
+		const entry = { versionId, spans };
+		this._deprecatedSpans.set(model, entry);
+		// a failure is not cached, so the next request asks the worker again
+		spans.catch(() => {
+			if (this._deprecatedSpans.get(model) === entry) {
+				this._deprecatedSpans.delete(model);
+			}
+		});
+		return spans;
 	}
 }
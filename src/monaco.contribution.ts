@@ -5,10 +5,20 @@
 'use strict';
 
 import type * as mode from './tsMode';
+import type { CodeEditors } from './languageFeatures';
 import * as tsDefinitions from './definitions/typescript';
 import * as jsDefinitions from './definitions/javascript';
 import { typescriptVersion as tsversion } from './lib/typescriptServicesMetadata'; // do not import the whole typescriptServices here
-import { languages, Emitter, IEvent, IDisposable, Uri } from './fillers/monaco-editor-core';
+import {
+	editor,
+	languages,
+	Emitter,
+	IEvent,
+	IDisposable,
+	IPosition,
+	IRange,
+	Uri
+} from './fillers/monaco-editor-core';
 
 //#region enums copied from typescript to prevent loading the entire typescriptServices ---
 
@@ -166,11 +176,186 @@ export interface DiagnosticsOptions {
 	diagnosticCodesToIgnore?: number[];
 }
 
+export interface CompletionOptions {
+	/**
+	 * Suggest the exports of other modules, which add the missing import when accepted.
+	 * Defaults to false.
+	 */
+	includeCompletionsForModuleExports?: boolean;
+	/**
+	 * Suggest the exports of other modules while typing an import statement.
+	 * Defaults to false.
+	 */
+	includeCompletionsForImportStatements?: boolean;
+	/**
+	 * Allow completions which insert text different from their name, e.g. `?.` or `["key"]`.
+	 * Defaults to false.
+	 */
+	includeCompletionsWithInsertText?: boolean;
+	/**
+	 * Suggest the members of possibly undefined values, inserting optional chaining.
+	 * Requires `includeCompletionsWithInsertText`. Defaults to false.
+	 */
+	includeAutomaticOptionalChainCompletions?: boolean;
+	/**
+	 * Allow completions which are inserted as snippets, e.g. for import statements.
+	 * Defaults to false.
+	 */
+	includeCompletionsWithSnippetText?: boolean;
+	/**
+	 * Complete functions and methods with a snippet of their required parameters,
+	 * like `foo(${1:a}, ${2:b})`. Defaults to false.
+	 */
+	completeFunctionCalls?: boolean;
+	/**
+	 * The quotes used for the module specifier of added imports.
+	 */
+	quotePreference?: 'auto' | 'double' | 'single';
+	/**
+	 * How the module specifier of added imports is computed.
+	 */
+	importModuleSpecifierPreference?: 'shortest' | 'project-relative' | 'relative' | 'non-relative';
+	/**
+	 * Whether the module specifier of added imports ends with `/index` or a file extension.
+	 */
+	importModuleSpecifierEnding?: 'auto' | 'minimal' | 'index' | 'js';
+}
+
+/**
+ * Options of the TypeScript formatter, see `typescript.FormatCodeSettings`. Indentation
+ * options which are not set are taken from the options of the model.
+ */
+export interface FormatOptions {
+	baseIndentSize?: number;
+	indentSize?: number;
+	tabSize?: number;
+	newLineCharacter?: string;
+	convertTabsToSpaces?: boolean;
+	trimTrailingWhitespace?: boolean;
+	insertSpaceAfterCommaDelimiter?: boolean;
+	insertSpaceAfterSemicolonInForStatements?: boolean;
+	insertSpaceBeforeAndAfterBinaryOperators?: boolean;
+	insertSpaceAfterConstructor?: boolean;
+	insertSpaceAfterKeywordsInControlFlowStatements?: boolean;
+	insertSpaceAfterFunctionKeywordForAnonymousFunctions?: boolean;
+	insertSpaceAfterOpeningAndBeforeClosingNonemptyParenthesis?: boolean;
+	insertSpaceAfterOpeningAndBeforeClosingNonemptyBrackets?: boolean;
+	insertSpaceAfterOpeningAndBeforeClosingNonemptyBraces?: boolean;
+	insertSpaceAfterOpeningAndBeforeClosingEmptyBraces?: boolean;
+	insertSpaceAfterOpeningAndBeforeClosingTemplateStringBraces?: boolean;
+	insertSpaceAfterOpeningAndBeforeClosingJsxExpressionBraces?: boolean;
+	insertSpaceAfterTypeAssertion?: boolean;
+	insertSpaceBeforeFunctionParenthesis?: boolean;
+	placeOpenBraceOnNewLineForFunctions?: boolean;
+	placeOpenBraceOnNewLineForControlBlocks?: boolean;
+	insertSpaceBeforeTypeAnnotation?: boolean;
+	indentMultiLineObjectLiteralBeginningOnBlankLine?: boolean;
+	/**
+	 * Whether semicolons at the end of statements are added or removed. Defaults to 'ignore'.
+	 */
+	semicolons?: 'ignore' | 'insert' | 'remove';
+}
+
+export interface EntityInfo {
+	name: string;
+	/**
+	 * The icon of the completion item. Defaults to `languages.CompletionItemKind.Value`.
+	 */
+	kind?: languages.CompletionItemKind;
+	/**
+	 * Shown next to the name, e.g. the template of a thing.
+	 */
+	detail?: string;
+}
+
+export interface EntityNameProvider {
+	/**
+	 * Get the entities of a collection, e.g. all things for `Things`.
+	 */
+	provideEntities(collection: string): EntityInfo[] | Promise<EntityInfo[]>;
+
+	/**
+	 * Get the markdown documentation of an entity once its completion item is selected.
+	 */
+	resolveDocumentation?(
+		collection: string,
+		name: string
+	): string | undefined | Promise<string | undefined>;
+}
+
+export interface EntityOptions {
+	/**
+	 * The names of the known entities per collection object, e.g. `{ Things: ['MyThing'] }`.
+	 * References to other entities of these collections are reported with code 100001,
+	 * together with a quick fix which replaces them with the closest known names.
+	 */
+	knownEntityNames?: { [collection: string]: string[] };
+	/**
+	 * Maps the source text of keys which can't be evaluated statically to the entity they
+	 * stand for, per collection. Defaults to `{ Users: { principal: 'System' } }`.
+	 */
+	keyRules?: { [collection: string]: { [keyExpression: string]: string } };
+	/**
+	 * The providers of the entity names which are suggested after `Things.` or within
+	 * `Things["`, per collection object.
+	 */
+	entityNameProviders?: { [collection: string]: EntityNameProvider };
+}
+
+export interface CodeLensOptions {
+	/**
+	 * Show the number of references above functions, classes, interfaces, type aliases,
+	 * enums, exported variables and class or interface members. Defaults to false.
+	 */
+	referencesCodeLens?: boolean;
+	/**
+	 * Show the number of implementations above interfaces, abstract classes and their members.
+	 * Defaults to false.
+	 */
+	implementationsCodeLens?: boolean;
+}
+
+export interface SemanticTokensOptions {
+	/**
+	 * Provide semantic tokens, which tell apart e.g. classes, parameters, readonly members
+	 * and deprecated symbols. Defaults to true.
+	 */
+	enabled?: boolean;
+}
+
+export interface OutlineOptions {
+	/**
+	 * Build the outline from the classes, functions and object literals with methods of a script,
+	 * instead of the navigation tree. Entries which belong to the entities of the collections
+	 * configured in the entity options show that entity as detail. Defaults to false.
+	 */
+	useCodeOutline?: boolean;
+}
+
 export interface WorkerOptions {
 	/** A full HTTP path to a JavaScript file which adds a function `customTSWorkerFactory` to the self inside a web-worker */
 	customWorkerPath?: string;
 }
 
+/**
+ * Callbacks used to carry out file operations which are part of a rename or a code action,
+ * since the standalone editor is only able to apply text edits to existing models.
+ */
+export interface FileOperationsHost {
+	/**
+	 * Create a new file with the given content, e.g. for a "Move to a new file" refactoring.
+	 * The host is expected to create a model for the new file.
+	 */
+	createFile(uri: Uri, content: string): void | Promise<void>;
+
+	/**
+	 * Rename an existing file, e.g. when renaming the path of an import.
+	 * The host is expected to move the model of the file to the new uri. It is called once
+	 * the updated imports are applied, including those within the file itself.
+	 */
+	renameFile(oldUri: Uri, newUri: Uri): void | Promise<void>;
+}
+
 interface IExtraLib {
 	content: string;
 	version: number;
@@ -221,10 +406,17 @@ interface OutputFile {
 
 export interface LanguageServiceDefaults {
 	/**
-	 * Event fired when compiler options or diagnostics options are changed.
+	 * Event fired when any of the options is changed, e.g. the compiler, diagnostics or format options.
+	 * The worker is only restarted when the compiler or worker options are changed.
 	 */
 	readonly onDidChange: IEvent<void>;
 
+	/**
+	 * Event fired along with `onDidChange` when options which are only used on the main thread
+	 * are changed, i.e. the completion, format, entity, code lens, semantic tokens and outline options.
+	 */
+	readonly onDidProviderOptionsChange: IEvent<void>;
+
 	/**
 	 * Event fired when extra libraries registered with the language service change.
 	 */
@@ -278,6 +470,68 @@ export interface LanguageServiceDefaults {
 	 */
 	setDiagnosticsOptions(options: DiagnosticsOptions): void;
 
+	/**
+	 * Get the current completion options for the language service.
+	 */
+	getCompletionOptions(): CompletionOptions;
+
+	/**
+	 * Configure which completions are suggested and how accepting them adds imports.
+	 */
+	setCompletionOptions(options: CompletionOptions): void;
+
+	/**
+	 * Get the current formatting options for the language service.
+	 */
+	getFormatOptions(): FormatOptions;
+
+	/**
+	 * Configure the formatting options, which are used for formatting as well as for the
+	 * code inserted by code actions, refactorings and completions.
+	 */
+	setFormatOptions(options: FormatOptions): void;
+
+	/**
+	 * Get the current options about the platform entities referenced by scripts.
+	 */
+	getEntityOptions(): EntityOptions;
+
+	/**
+	 * Configure the known platform entities, which are validated by the diagnostics,
+	 * and the providers of the entity names which are suggested.
+	 */
+	setEntityOptions(options: EntityOptions): void;
+
+	/**
+	 * Get the current code lens options for the language service.
+	 */
+	getCodeLensOptions(): CodeLensOptions;
+
+	/**
+	 * Configure which code lenses are shown.
+	 */
+	setCodeLensOptions(options: CodeLensOptions): void;
+
+	/**
+	 * Get the current semantic tokens options for the language service.
+	 */
+	getSemanticTokensOptions(): SemanticTokensOptions;
+
+	/**
+	 * Configure whether semantic tokens are provided.
+	 */
+	setSemanticTokensOptions(options: SemanticTokensOptions): void;
+
+	/**
+	 * Get the current outline options for the language service.
+	 */
+	getOutlineOptions(): OutlineOptions;
+
+	/**
+	 * Configure how the outline is built.
+	 */
+	setOutlineOptions(options: OutlineOptions): void;
+
 	/**
 	 * Configure webworker options
 	 */
@@ -299,6 +553,17 @@ export interface LanguageServiceDefaults {
 	 * to the worker on start or restart.
 	 */
 	getEagerModelSync(): boolean;
+
+	/**
+	 * Get the host used to create and rename files, if any.
+	 */
+	getFileOperationsHost(): FileOperationsHost | undefined;
+
+	/**
+	 * Configure the host used to create and rename files. Without one, renaming
+	 * import paths and code actions which create new files are not offered.
+	 */
+	setFileOperationsHost(host: FileOperationsHost | undefined): void;
 }
 
 export interface TypeScriptWorker {
@@ -330,18 +595,31 @@ export interface TypeScriptWorker {
 
 	/**
 	 * Get code completions for the given file and position.
+	 * @param preferences `typescript.GetCompletionsAtPositionOptions`
 	 * @returns `Promise<typescript.CompletionInfo | undefined>`
 	 */
-	getCompletionsAtPosition(fileName: string, position: number): Promise<any | undefined>;
+	getCompletionsAtPosition(
+		fileName: string,
+		position: number,
+		preferences?: any
+	): Promise<any | undefined>;
 
 	/**
 	 * Get code completion details for the given file, position, and entry.
+	 * @param formatOptions `typescript.FormatCodeSettings`
+	 * @param source `typescript.CompletionEntry.source`
+	 * @param preferences `typescript.UserPreferences`
+	 * @param data `typescript.CompletionEntry.data`
 	 * @returns `Promise<typescript.CompletionEntryDetails | undefined>`
 	 */
 	getCompletionEntryDetails(
 		fileName: string,
 		position: number,
-		entry: string
+		entry: string,
+		formatOptions?: any,
+		source?: string,
+		preferences?: any,
+		data?: any
 	): Promise<any | undefined>;
 
 	/**
@@ -374,28 +652,114 @@ export interface TypeScriptWorker {
 		position: number
 	): Promise<ReadonlyArray<any> | undefined>;
 
+	/**
+	 * Get the definition of the type of the item at the given position in the file.
+	 * @returns `Promise<ReadonlyArray<typescript.DefinitionInfo> | undefined>`
+	 */
+	getTypeDefinitionAtPosition(
+		fileName: string,
+		position: number
+	): Promise<ReadonlyArray<any> | undefined>;
+
+	/**
+	 * Get the implementations of the item at the given position in the file.
+	 * @returns `Promise<ReadonlyArray<typescript.ImplementationLocation> | undefined>`
+	 */
+	getImplementationAtPosition(
+		fileName: string,
+		position: number
+	): Promise<ReadonlyArray<any> | undefined>;
+
 	/**
 	 * Get references to the item at the given position in the file.
 	 * @returns `Promise<typescript.ReferenceEntry[] | undefined>`
 	 */
 	getReferencesAtPosition(fileName: string, position: number): Promise<any[] | undefined>;
 
+	/**
+	 * Get semantic classifications, encoded in the TS 2020 format, for the given span of the file.
+	 * @returns `Promise<typescript.Classifications>`
+	 */
+	getEncodedSemanticClassifications(fileName: string, start: number, length: number): Promise<any>;
+
+	/**
+	 * Get the call hierarchy items of the symbol at the given position in the file.
+	 * @returns `Promise<typescript.CallHierarchyItem[] | undefined>`
+	 */
+	prepareCallHierarchy(fileName: string, position: number): Promise<any[] | undefined>;
+
+	/**
+	 * Get the calls of the call hierarchy item whose selection span starts at the given position.
+	 * @returns `Promise<typescript.CallHierarchyIncomingCall[]>`
+	 */
+	provideCallHierarchyIncomingCalls(fileName: string, position: number): Promise<any[]>;
+
+	/**
+	 * Get the calls made by the call hierarchy item whose selection span starts at the given position.
+	 * @returns `Promise<typescript.CallHierarchyOutgoingCall[]>`
+	 */
+	provideCallHierarchyOutgoingCalls(fileName: string, position: number): Promise<any[]>;
+
+	/**
+	 * Get the declarations in all files, except the default libs, whose name matches `searchValue`
+	 * fuzzily, best matches first.
+	 * @returns `Promise<typescript.NavigateToItem[]>`
+	 */
+	getNavigateToItems(searchValue: string, maxResults?: number): Promise<any[]>;
+
 	/**
 	 * Get outline entries for the item at the given position in the file.
 	 * @returns `Promise<typescript.NavigationBarItem[]>`
 	 */
 	getNavigationBarItems(fileName: string): Promise<any[]>;
 
+	/**
+	 * Get the tree of declarations in the file, rooted at the file itself.
+	 * @returns `Promise<typescript.NavigationTree | undefined>`
+	 */
+	getNavigationTree(fileName: string): Promise<any | undefined>;
+
+	/**
+	 * Get the foldable regions of the file.
+	 * @returns `Promise<typescript.OutliningSpan[]>`
+	 */
+	getOutliningSpans(fileName: string): Promise<any[]>;
+
+	/**
+	 * Get the nested syntactic ranges around the given position, innermost first.
+	 * @returns `Promise<typescript.SelectionRange | undefined>`
+	 */
+	getSmartSelectionRange(fileName: string, position: number): Promise<any | undefined>;
+
+	/**
+	 * Get the closing tag to insert after a JSX opening tag was completed by typing `>`.
+	 * @returns `Promise<typescript.JsxClosingTagInfo | undefined>`
+	 */
+	getJsxClosingTagAtPosition(fileName: string, position: number): Promise<any | undefined>;
+
+	/**
+	 * Get the ranges which should be edited together with the one at the given position,
+	 * like the names of an opening and a closing JSX tag.
+	 * @returns `Promise<{ ranges: typescript.TextSpan[]; wordPattern?: string } | undefined>`
+	 */
+	getLinkedEditingRangeAtPosition(fileName: string, position: number): Promise<any | undefined>;
+
+	/**
+	 * Get the module specifiers and referenced paths in the file which resolve to a model or an extra lib.
+	 * @returns `Promise<{ textSpan: typescript.TextSpan; target: string }[]>`
+	 */
+	getDocumentLinks(fileName: string): Promise<any[]>;
+
 	/**
 	 * Get changes which should be applied to format the given file.
-	 * @param options `typescript.FormatCodeOptions`
+	 * @param options `typescript.FormatCodeSettings`
 	 * @returns `Promise<typescript.TextChange[]>`
 	 */
 	getFormattingEditsForDocument(fileName: string, options: any): Promise<any[]>;
 
 	/**
 	 * Get changes which should be applied to format the given range in the file.
-	 * @param options `typescript.FormatCodeOptions`
+	 * @param options `typescript.FormatCodeSettings`
 	 * @returns `Promise<typescript.TextChange[]>`
 	 */
 	getFormattingEditsForRange(
@@ -407,7 +771,7 @@ export interface TypeScriptWorker {
 
 	/**
 	 * Get formatting changes which should be applied after the given keystroke.
-	 * @param options `typescript.FormatCodeOptions`
+	 * @param options `typescript.FormatCodeSettings`
 	 * @returns `Promise<typescript.TextChange[]>`
 	 */
 	getFormattingEditsAfterKeystroke(
@@ -436,6 +800,17 @@ export interface TypeScriptWorker {
 	 */
 	getRenameInfo(fileName: string, positon: number, options: any): Promise<any>;
 
+	/**
+	 * Get the edits which update all references to a file after it has been renamed.
+	 * @param formatOptions `typescript.FormatCodeSettings`
+	 * @returns `Promise<readonly typescript.FileTextChanges[]>`
+	 */
+	getEditsForFileRename(
+		oldFilePath: string,
+		newFilePath: string,
+		formatOptions: any
+	): Promise<readonly any[]>;
+
 	/**
 	 * Get transpiled output for the given file.
 	 * @returns `typescript.EmitOutput`
@@ -444,7 +819,7 @@ export interface TypeScriptWorker {
 
 	/**
 	 * Get possible code fixes at the given position in the file.
-	 * @param formatOptions `typescript.FormatCodeOptions`
+	 * @param formatOptions `typescript.FormatCodeSettings`
 	 * @returns `Promise<ReadonlyArray<typescript.CodeFixAction>>`
 	 */
 	getCodeFixesAtPosition(
@@ -454,19 +829,153 @@ export interface TypeScriptWorker {
 		errorCodes: number[],
 		formatOptions: any
 	): Promise<ReadonlyArray<any>>;
+
+	/**
+	 * Get the edits which fix all problems in the file that have the given fix id.
+	 * @param fixId `typescript.CodeFixAction.fixId`
+	 * @param formatOptions `typescript.FormatCodeSettings`
+	 * @returns `Promise<typescript.CombinedCodeActions | undefined>`
+	 */
+	getCombinedCodeFix(fileName: string, fixId: {}, formatOptions: any): Promise<any | undefined>;
+
+	/**
+	 * Get the edits which sort the imports of the file and remove the unused ones.
+	 * @param formatOptions `typescript.FormatCodeSettings`
+	 * @returns `Promise<readonly typescript.FileTextChanges[]>`
+	 */
+	organizeImports(fileName: string, formatOptions: any): Promise<readonly any[]>;
+
+	/**
+	 * Get the refactorings which can be applied to the given range in the file.
+	 * @param triggerReason `typescript.RefactorTriggerReason`
+	 * @param preferences `typescript.UserPreferences`
+	 * @returns `Promise<typescript.ApplicableRefactorInfo[]>`
+	 */
+	getApplicableRefactors(
+		fileName: string,
+		start: number,
+		end: number,
+		triggerReason: string,
+		preferences: any
+	): Promise<any[]>;
+
+	/**
+	 * Get the edits of a refactoring action, as returned by `getApplicableRefactors`.
+	 * @param formatOptions `typescript.FormatCodeSettings`
+	 * @param preferences `typescript.UserPreferences`
+	 * @returns `Promise<typescript.RefactorEditInfo | undefined>`
+	 */
+	getEditsForRefactor(
+		fileName: string,
+		formatOptions: any,
+		start: number,
+		end: number,
+		refactorName: string,
+		actionName: string,
+		preferences: any
+	): Promise<any | undefined>;
+}
+
+export interface CallHierarchyItem {
+	name: string;
+	kind: languages.SymbolKind;
+	/** The name of the container of the symbol, if any. */
+	detail?: string;
+	uri: Uri;
+	/** The range of the whole declaration, e.g. the body of a function. */
+	range: IRange;
+	/** The range of the name of the declaration. */
+	selectionRange: IRange;
+}
+
+export interface CallHierarchyIncomingCall {
+	/** The item which makes the calls. */
+	from: CallHierarchyItem;
+	/** The ranges of the calls, which are relative to `from`. */
+	fromRanges: IRange[];
+}
+
+export interface CallHierarchyOutgoingCall {
+	/** The item which is called. */
+	to: CallHierarchyItem;
+	/** The ranges of the calls, which are relative to the item the calls were requested for. */
+	fromRanges: IRange[];
+}
+
+/**
+ * The editor has no call hierarchy view, so the hierarchy is exposed to be rendered by the embedder.
+ */
+export interface CallHierarchyProvider {
+	/**
+	 * Get the call hierarchy items of the symbol at the given position, usually a single one.
+	 */
+	prepareCallHierarchy(
+		model: editor.ITextModel,
+		position: IPosition
+	): Promise<CallHierarchyItem[] | undefined>;
+
+	/**
+	 * Get the places which call the given item.
+	 */
+	provideIncomingCalls(item: CallHierarchyItem): Promise<CallHierarchyIncomingCall[] | undefined>;
+
+	/**
+	 * Get the places the given item calls.
+	 */
+	provideOutgoingCalls(item: CallHierarchyItem): Promise<CallHierarchyOutgoingCall[] | undefined>;
+}
+
+export interface WorkspaceSymbol {
+	name: string;
+	kind: languages.SymbolKind;
+	tags: languages.SymbolTag[];
+	containerName?: string;
+	uri: Uri;
+	range: IRange;
+}
+
+export interface WorkspaceSymbolSearchOptions {
+	/**
+	 * The maximum number of symbols to return.
+	 */
+	maxResults?: number;
+	/**
+	 * Only return symbols of these kinds.
+	 */
+	kinds?: languages.SymbolKind[];
+}
+
+/**
+ * Searches the symbols of all models of the language and of the extra libs, e.g. for a
+ * "Go to Symbol in Workspace" picker. Get it with `getWorkspaceSymbolProvider`. The query
+ * matches names which contain it, or its characters in order, so `gNT` finds `getNavigationTree`.
+ */
+export interface WorkspaceSymbolProvider {
+	provideWorkspaceSymbols(
+		query: string,
+		options?: WorkspaceSymbolSearchOptions
+	): Promise<WorkspaceSymbol[]>;
 }
 
 // --- TypeScript configuration and defaults ---------
 
 class LanguageServiceDefaultsImpl implements LanguageServiceDefaults {
 	private _onDidChange = new Emitter<void>();
+	private _onDidProviderOptionsChange = new Emitter<void>();
 	private _onDidExtraLibsChange = new Emitter<void>();
 
 	private _extraLibs: IExtraLibs;
 	private _removedExtraLibs: { [path: string]: number };
 	private _eagerModelSync: boolean;
+	private _fileOperationsHost: FileOperationsHost | undefined;
 	private _compilerOptions!: CompilerOptions;
 	private _diagnosticsOptions!: DiagnosticsOptions;
+	private _completionOptions!: CompletionOptions;
+	private _formatOptions!: FormatOptions;
+	private _entityOptions!: EntityOptions;
+	private _codeLensOptions!: CodeLensOptions;
+	private _semanticTokensOptions!: SemanticTokensOptions;
+	private _outlineOptions!: OutlineOptions;
 	private _workerOptions!: WorkerOptions;
 	private _onDidExtraLibsChangeTimeout: number;
 
@@ -474,6 +983,12 @@ class LanguageServiceDefaultsImpl implements LanguageServiceDefaults {
 		languageId: string,
 		compilerOptions: CompilerOptions,
 		diagnosticsOptions: DiagnosticsOptions,
+		completionOptions: CompletionOptions,
+		formatOptions: FormatOptions,
+		entityOptions: EntityOptions,
+		codeLensOptions: CodeLensOptions,
+		semanticTokensOptions: SemanticTokensOptions,
+		outlineOptions: OutlineOptions,
 		workerOptions: WorkerOptions
 	) {
 		this._extraLibs = Object.create(null);
@@ -481,6 +996,12 @@ class LanguageServiceDefaultsImpl implements LanguageServiceDefaults {
 		this._eagerModelSync = false;
 		this.setCompilerOptions(compilerOptions);
 		this.setDiagnosticsOptions(diagnosticsOptions);
+		this.setCompletionOptions(completionOptions);
+		this.setFormatOptions(formatOptions);
+		this.setEntityOptions(entityOptions);
+		this.setCodeLensOptions(codeLensOptions);
+		this.setSemanticTokensOptions(semanticTokensOptions);
+		this.setOutlineOptions(outlineOptions);
 		this.setWorkerOptions(workerOptions);
 		this._onDidExtraLibsChangeTimeout = -1;
 	}
@@ -489,6 +1010,10 @@ class LanguageServiceDefaultsImpl implements LanguageServiceDefaults {
 		return this._onDidChange.event;
 	}
 
+	get onDidProviderOptionsChange(): IEvent<void> {
+		return this._onDidProviderOptionsChange.event;
+	}
+
 	get onDidExtraLibsChange(): IEvent<void> {
 		return this._onDidExtraLibsChange.event;
 	}
@@ -602,6 +1127,66 @@ class LanguageServiceDefaultsImpl implements LanguageServiceDefaults {
 		this._onDidChange.fire(undefined);
 	}
 
+	getCompletionOptions(): CompletionOptions {
+		return this._completionOptions;
+	}
+
+	setCompletionOptions(options: CompletionOptions): void {
+		this._completionOptions = options || Object.create(null);
+		this._onDidProviderOptionsChange.fire(undefined);
+		this._onDidChange.fire(undefined);
+	}
+
+	getFormatOptions(): FormatOptions {
+		return this._formatOptions;
+	}
+
+	setFormatOptions(options: FormatOptions): void {
+		this._formatOptions = options || Object.create(null);
+		this._onDidProviderOptionsChange.fire(undefined);
+		this._onDidChange.fire(undefined);
+	}
+
+	getEntityOptions(): EntityOptions {
+		return this._entityOptions;
+	}
+
+	setEntityOptions(options: EntityOptions): void {
+		this._entityOptions = options || Object.create(null);
+		this._onDidProviderOptionsChange.fire(undefined);
+		this._onDidChange.fire(undefined);
+	}
+
+	getCodeLensOptions(): CodeLensOptions {
+		return this._codeLensOptions;
+	}
+
+	setCodeLensOptions(options: CodeLensOptions): void {
+		this._codeLensOptions = options || Object.create(null);
+		this._onDidProviderOptionsChange.fire(undefined);
+		this._onDidChange.fire(undefined);
+	}
+
+	getSemanticTokensOptions(): SemanticTokensOptions {
+		return this._semanticTokensOptions;
+	}
+
+	setSemanticTokensOptions(options: SemanticTokensOptions): void {
+		this._semanticTokensOptions = options || Object.create(null);
+		this._onDidProviderOptionsChange.fire(undefined);
+		this._onDidChange.fire(undefined);
+	}
+
+	getOutlineOptions(): OutlineOptions {
+		return this._outlineOptions;
+	}
+
+	setOutlineOptions(options: OutlineOptions): void {
+		this._outlineOptions = options || Object.create(null);
+		this._onDidProviderOptionsChange.fire(undefined);
+		this._onDidChange.fire(undefined);
+	}
+
 	setWorkerOptions(options: WorkerOptions): void {
 		this._workerOptions = options || Object.create(null);
 		this._onDidChange.fire(undefined);
@@ -618,6 +1203,16 @@ class LanguageServiceDefaultsImpl implements LanguageServiceDefaults {
 	getEagerModelSync() {
 		return this._eagerModelSync;
 	}
+
+	getFileOperationsHost(): FileOperationsHost | undefined {
+		return this._fileOperationsHost;
+	}
+
+	setFileOperationsHost(host: FileOperationsHost | undefined): void {
+		// doesn't fire an event since the host
+		// is only used on the main thread
+		this._fileOperationsHost = host;
+	}
 }
 
 export const typescriptVersion: string = tsversion;
@@ -627,11 +1222,23 @@ const languageDefaultOptions = {
 	javascript: {
 		compilerOptions: { allowNonTsExtensions: true, allowJs: true, target: ScriptTarget.Latest },
 		diagnosticsOptions: { noSemanticValidation: true, noSyntaxValidation: false },
+		completionOptions: {},
+		formatOptions: {},
+		entityOptions: {},
+		codeLensOptions: {},
+		semanticTokensOptions: {},
+		outlineOptions: {},
 		workerOptions: {}
 	},
 	typescript: {
 		compilerOptions: { allowNonTsExtensions: true, target: ScriptTarget.Latest },
 		diagnosticsOptions: { noSemanticValidation: false, noSyntaxValidation: false },
+		completionOptions: {},
+		formatOptions: {},
+		entityOptions: {},
+		codeLensOptions: {},
+		semanticTokensOptions: {},
+		outlineOptions: {},
 		workerOptions: {}
 	}
 };
@@ -642,6 +1249,12 @@ function setupLanguageServiceDefaults(languageId: string, isTypescript: boolean)
 		languageId,
 		languageOptions.compilerOptions,
 		languageOptions.diagnosticsOptions,
+		languageOptions.completionOptions,
+		languageOptions.formatOptions,
+		languageOptions.entityOptions,
+		languageOptions.codeLensOptions,
+		languageOptions.semanticTokensOptions,
+		languageOptions.outlineOptions,
 		{}
 	);
 }
@@ -684,6 +1297,43 @@ export function getLanguageWorker(
 	return getMode().then((mode) => mode.getNamedLanguageWorker(languageName));
 }
 
+export function getCallHierarchyProvider(languageName: string): Promise<CallHierarchyProvider> {
+	return getMode().then((mode) => mode.getNamedCallHierarchyProvider(languageName));
+}
+
+export function getWorkspaceSymbolProvider(languageName: string): Promise<WorkspaceSymbolProvider> {
+	return getMode().then((mode) => mode.getNamedWorkspaceSymbolProvider(languageName));
+}
+
+/**
+ * Format the whole model with the given uri, e.g. before saving it. The model does not
+ * need to be attached to an editor, but it needs to belong to a TypeScript or JavaScript language.
+ * If the model changes while the edits are computed, they are computed again for the new version.
+ * The promise rejects when the model is disposed meanwhile, or keeps changing.
+ */
+export function formatModel(uri: Uri): Promise<void> {
+	return getMode().then((mode) => mode.formatModel(uri));
+}
+
+// the mode only loads once a model of its language is created, so the editors
+// are tracked from here to know about the ones which exist by then
+const codeEditorList: editor.ICodeEditor[] = [];
+const onDidAddCodeEditor = new Emitter<editor.ICodeEditor>();
+editor.onDidCreateEditor((codeEditor) => {
+	codeEditorList.push(codeEditor);
+	codeEditor.onDidDispose(() => {
+		const index = codeEditorList.indexOf(codeEditor);
+		if (index !== -1) {
+			codeEditorList.splice(index, 1);
+		}
+	});
+	onDidAddCodeEditor.fire(codeEditor);
+});
+const codeEditors: CodeEditors = {
+	getEditors: () => codeEditorList.slice(),
+	onDidAddEditor: onDidAddCodeEditor.event
+};
+
 export function getLanguageDefaults(languageName: string): LanguageServiceDefaultsImpl {
 	return languageDefaults[languageName];
 }
@@ -708,7 +1358,8 @@ export function setupNamedLanguage(
 			mode.setupNamedLanguage(
 				languageDefinition.id,
 				isTypescript,
-				languageDefaults[languageDefinition.id]
+				languageDefaults[languageDefinition.id],
+				codeEditors
 			)
 		);
 	});
@@ -727,6 +1378,9 @@ export function setupNamedLanguage(
 	getTypeScriptWorker,
 	getJavaScriptWorker,
 	getLanguageWorker,
+	getCallHierarchyProvider,
+	getWorkspaceSymbolProvider,
+	formatModel,
 	setupNamedLanguage,
 	getLanguageDefaults
 };
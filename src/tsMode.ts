@@ -6,18 +6,26 @@
 
 import { WorkerManager } from './workerManager';
 import type { TypeScriptWorker } from './tsWorker';
-import { LanguageServiceDefaults } from './monaco.contribution';
+import {
+	CallHierarchyProvider,
+	LanguageServiceDefaults,
+	WorkspaceSymbolProvider
+} from './monaco.contribution';
 import * as languageFeatures from './languageFeatures';
-import { languages, Uri } from './fillers/monaco-editor-core';
+import { editor, languages, Uri } from './fillers/monaco-editor-core';
 
 let scriptWorkerMap: { [name: string]: (...uris: Uri[]) => Promise<TypeScriptWorker> } = {};
+let callHierarchyProviderMap: { [name: string]: CallHierarchyProvider } = {};
+let workspaceSymbolProviderMap: { [name: string]: WorkspaceSymbolProvider } = {};
+let documentFormatAdapterMap: { [name: string]: languageFeatures.DocumentFormatAdapter } = {};
 
 export function setupNamedLanguage(
 	languageName: string,
 	isTypescript: boolean,
-	defaults: LanguageServiceDefaults
+	defaults: LanguageServiceDefaults,
+	codeEditors: languageFeatures.CodeEditors
 ): void {
-	scriptWorkerMap[languageName + 'Worker'] = setupMode(defaults, languageName);
+	scriptWorkerMap[languageName + 'Worker'] = setupMode(defaults, languageName, codeEditors);
 }
 
 export function getNamedLanguageWorker(
@@ -33,18 +41,58 @@ export function getNamedLanguageWorker(
 	});
 }
 
+export function getNamedCallHierarchyProvider(
+	languageName: string
+): Promise<CallHierarchyProvider> {
+	return new Promise((resolve, reject) => {
+		if (!callHierarchyProviderMap[languageName]) {
+			return reject(languageName + ' not registered!');
+		}
+
+		resolve(callHierarchyProviderMap[languageName]);
+	});
+}
+
+export function getNamedWorkspaceSymbolProvider(
+	languageName: string
+): Promise<WorkspaceSymbolProvider> {
+	return new Promise((resolve, reject) => {
+		if (!workspaceSymbolProviderMap[languageName]) {
+			return reject(languageName + ' not registered!');
+		}
+
+		resolve(workspaceSymbolProviderMap[languageName]);
+	});
+}
+
+export function formatModel(uri: Uri): Promise<void> {
+	const model = editor.getModel(uri);
+	if (!model) {
+		return Promise.reject(uri.toString() + ' has no model!');
+	}
+	const formatter = documentFormatAdapterMap[model.getModeId()];
+	if (!formatter) {
+		return Promise.reject(model.getModeId() + ' not registered!');
+	}
+	return formatter.formatModel(model);
+}
+
 function setupMode(
 	defaults: LanguageServiceDefaults,
-	modeId: string
+	modeId: string,
+	codeEditors: languageFeatures.CodeEditors
 ): (...uris: Uri[]) => Promise<TypeScriptWorker> {
 	const client = new WorkerManager(modeId, defaults);
 	const worker = (...uris: Uri[]): Promise<TypeScriptWorker> => {
 		return client.getLanguageServiceWorker(...uris);
 	};
 
-	const libFiles = new languageFeatures.LibFiles(worker);
+	const libFiles = new languageFeatures.LibFiles(modeId, worker, defaults, codeEditors);
 
-	languages.registerCompletionItemProvider(modeId, new languageFeatures.SuggestAdapter(worker));
+	languages.registerCompletionItemProvider(
+		modeId,
+		new languageFeatures.SuggestAdapter(defaults, worker)
+	);
 	languages.registerSignatureHelpProvider(
 		modeId,
 		new languageFeatures.SignatureHelpAdapter(worker)
@@ -54,26 +102,69 @@ function setupMode(
 		modeId,
 		new languageFeatures.OccurrencesAdapter(worker)
 	);
-	languages.registerDefinitionProvider(
+	const definitionAdapter = new languageFeatures.DefinitionAdapter(libFiles, worker);
+	languages.registerDefinitionProvider(modeId, definitionAdapter);
+	languages.registerDeclarationProvider(modeId, definitionAdapter);
+	languages.registerTypeDefinitionProvider(
 		modeId,
-		new languageFeatures.DefinitionAdapter(libFiles, worker)
+		new languageFeatures.TypeDefinitionAdapter(libFiles, worker)
+	);
+	languages.registerImplementationProvider(
+		modeId,
+		new languageFeatures.ImplementationAdapter(libFiles, worker)
 	);
 	languages.registerReferenceProvider(
 		modeId,
 		new languageFeatures.ReferenceAdapter(libFiles, worker)
 	);
-	languages.registerDocumentSymbolProvider(modeId, new languageFeatures.OutlineAdapter(worker));
+	languages.registerDocumentSymbolProvider(
+		modeId,
+		new languageFeatures.OutlineAdapter(defaults, worker)
+	);
+	languages.registerFoldingRangeProvider(modeId, new languageFeatures.FoldingAdapter(worker));
+	languages.registerSelectionRangeProvider(
+		modeId,
+		new languageFeatures.SelectionRangeAdapter(worker)
+	);
+	const semanticTokensAdapter = new languageFeatures.SemanticTokensAdapter(defaults, worker);
+	languages.registerDocumentSemanticTokensProvider(modeId, semanticTokensAdapter);
+	languages.registerDocumentRangeSemanticTokensProvider(modeId, semanticTokensAdapter);
+	const documentFormatAdapter = new languageFeatures.DocumentFormatAdapter(defaults, worker);
+	documentFormatAdapterMap[modeId] = documentFormatAdapter;
+	languages.registerDocumentFormattingEditProvider(modeId, documentFormatAdapter);
 	languages.registerDocumentRangeFormattingEditProvider(
 		modeId,
-		new languageFeatures.FormatAdapter(worker)
+		new languageFeatures.FormatAdapter(defaults, worker)
 	);
 	languages.registerOnTypeFormattingEditProvider(
 		modeId,
-		new languageFeatures.FormatOnTypeAdapter(worker)
+		new languageFeatures.FormatOnTypeAdapter(defaults, worker)
+	);
+	languages.registerCodeActionProvider(
+		modeId,
+		new languageFeatures.CodeActionAdaptor(libFiles, defaults, codeEditors, modeId, worker)
+	);
+	languages.registerRenameProvider(
+		modeId,
+		new languageFeatures.RenameAdapter(libFiles, defaults, worker)
+	);
+	languages.registerLinkedEditingRangeProvider(
+		modeId,
+		new languageFeatures.LinkedEditingAdapter(worker)
 	);
-	languages.registerCodeActionProvider(modeId, new languageFeatures.CodeActionAdaptor(worker));
-	languages.registerRenameProvider(modeId, new languageFeatures.RenameAdapter(worker));
+	languages.registerCodeLensProvider(
+		modeId,
+		new languageFeatures.CodeLensAdapter(libFiles, defaults, worker)
+	);
+	languages.registerLinkProvider(modeId, new languageFeatures.LinkAdapter(libFiles, worker));
 	new languageFeatures.DiagnosticsAdapter(libFiles, defaults, modeId, worker);
+	new languageFeatures.JsxClosingTagAdapter(modeId, worker);
+	callHierarchyProviderMap[modeId] = new languageFeatures.CallHierarchyAdapter(libFiles, worker);
+	workspaceSymbolProviderMap[modeId] = new languageFeatures.WorkspaceSymbolAdapter(
+		libFiles,
+		modeId,
+		worker
+	);
 
 	return worker;
 }
@@ -32,12 +32,357 @@ function fileNameIsLib(resource: Uri | string): boolean {
 	return false;
 }
 
-interface CodeOutlineToken {
+/**
+ * The content changes which a mirror model receives from the main thread,
+ * see `MirrorTextModel.onEvents` in monaco-editor-core.
+ */
+interface IModelChangedEvent {
+	readonly changes: {
+		readonly rangeOffset: number;
+		readonly rangeLength: number;
+		readonly text: string;
+	}[];
+	readonly versionId: number;
+}
+
+interface IMirrorModelWithEvents extends worker.IMirrorModel {
+	onEvents?(e: IModelChangedEvent): void;
+}
+
+interface ModelChange {
+	versionId: number;
+	changeRanges: ts.TextChangeRange[];
+}
+
+/**
+ * A declaration which workspace symbols are searched for, with the declaration containing it.
+ */
+interface SymbolDeclaration {
+	tree: ts.NavigationTree;
+	container?: ts.NavigationTree;
+}
+
+/**
+ * Changes which were not picked up by a snapshot, e.g. while no request was made, are
+ * dropped beyond this count. The snapshot then falls back to comparing the texts.
+ */
+const maxPendingModelChanges = 1000;
+
+/**
+ * A script snapshot which knows the range that changed relative to an older snapshot
+ * of the same file, so that TS can parse files incrementally instead of reparsing the
+ * entire text on every keystroke.
+ */
+class ScriptSnapshot implements ts.IScriptSnapshot {
+	/**
+	 * @param _base The version of the snapshot which `_base.changeRange` is relative to.
+	 */
+	constructor(
+		private readonly _text: string,
+		readonly version: string,
+		private readonly _base?: { version: string; changeRange: ts.TextChangeRange }
+	) {}
+
+	getText(start: number, end: number): string {
+		return this._text.substring(start, end);
+	}
+
+	getLength(): number {
+		return this._text.length;
+	}
+
+	getChangeRange(oldSnapshot: ts.IScriptSnapshot): ts.TextChangeRange | undefined {
+		if (!(oldSnapshot instanceof ScriptSnapshot)) {
+			// unknown snapshot implementation => full reparse
+			return undefined;
+		}
+		if (this._base && this._base.version === oldSnapshot.version) {
+			// computed from the content changes of the model
+			return this._base.changeRange;
+		}
+
+		// e.g. extra libs, which are replaced as a whole
+		const oldText = oldSnapshot._text;
+		const newText = this._text;
+		if (oldText === newText) {
+			return ts.unchangedTextChangeRange;
+		}
+
+		const minLength = Math.min(oldText.length, newText.length);
+		let prefix = 0;
+		while (prefix < minLength && oldText.charCodeAt(prefix) === newText.charCodeAt(prefix)) {
+			prefix++;
+		}
+		let suffix = 0;
+		while (
+			suffix < minLength - prefix &&
+			oldText.charCodeAt(oldText.length - suffix - 1) ===
+				newText.charCodeAt(newText.length - suffix - 1)
+		) {
+			suffix++;
+		}
+
+		return ts.createTextChangeRange(
+			ts.createTextSpan(prefix, oldText.length - suffix - prefix),
+			newText.length - suffix - prefix
+		);
+	}
+}
+
+/**
+ * Mirrors `ts.LinkedEditingInfo`, which the bundled TypeScript version does not have yet.
+ */
+export interface LinkedEditingInfo {
+	ranges: ts.TextSpan[];
+	wordPattern?: string;
+}
+
+export interface DocumentLink {
+	/** The span of the module specifier or referenced path, without quotes. */
+	textSpan: ts.TextSpan;
+	/** The file name of the resolved model or extra lib. */
+	target: string;
+}
+
+const jsxTagNamePattern = '[a-zA-Z0-9:\\-\\._$]*';
+
+/**
+ * Maps the source text of keys which can't be evaluated statically to the entity they stand
+ * for, per collection, e.g. `{ Users: { principal: 'System' } }` since all users have the
+ * same properties and services.
+ */
+export interface EntityKeyRules {
+	[collection: string]: { [keyExpression: string]: string };
+}
+
+/**
+ * The key rules used when none are given, which keep resolving `Users[principal]` to the
+ * `System` user like before key rules were configurable.
+ */
+const defaultEntityKeyRules: EntityKeyRules = { Users: { principal: 'System' } };
+
+/**
+ * A single access of an entity through a collection object.
+ */
+export interface EntityReferenceInfo {
+	fileName: string;
+	/** The span of the accessed member, or of the entity if no member is accessed. */
+	textSpan: ts.TextSpan;
+	/** The span of the name or key of the entity, e.g. `"Foo"` in `Things["Foo"]`. */
+	nameSpan: ts.TextSpan;
+	/**
+	 * What the name or key is: a property name like `Foo` in `Things.Foo` or `{ Foo: foo }`,
+	 * a string literal, the name of a shorthand binding like `{ Foo }`, or any other expression.
+	 */
+	nameKind: 'name' | 'literal' | 'shorthand' | 'expression';
+	collection: string;
+	entity: string;
+	/** The accessed member, e.g. `GetData` for `Things.Foo.GetData()`. */
+	member?: string;
+	/** The full name of what is accessed, e.g. `Things.Foo.GetData`. */
+	memberName: string;
+	/** Whether the member, or the entity itself, is read, assigned or called. */
+	accessKind: 'read' | 'write' | 'call';
+}
+
+/**
+ * Describes a position at which the name of an entity of a collection is typed.
+ */
+export interface EntityCompletionContext {
+	collection: string;
+	/** The span of the partially typed name, without quotes. */
+	replacementSpan: ts.TextSpan;
+	/** For property accesses, the span of the dot and the name, e.g. to replace them with `["name"]`. */
+	accessorSpan?: ts.TextSpan;
+	/** For element accesses, the quote of the string key. */
+	quote?: string;
+}
+
+interface EntityReference {
+	collection: string;
+	name: string;
+	/** The access expression or binding element which references the entity. */
+	node: ts.Node;
+	/** The name or key of the entity, e.g. `"Foo"` in `Things["Foo"]`. */
+	nameNode: ts.Node;
+}
+
+function skipOuterExpressions(expression: ts.Expression): ts.Expression {
+	while (
+		ts.isParenthesizedExpression(expression) ||
+		ts.isAsExpression(expression) ||
+		ts.isTypeAssertionExpression(expression) ||
+		ts.isNonNullExpression(expression)
+	) {
+		expression = expression.expression;
+	}
+	return expression;
+}
+
+/**
+ * The initializer of a variable, if the variable can be substituted by it.
+ */
+function getConstantInitializer(symbol: ts.Symbol): ts.Expression | undefined {
+	const declaration = symbol.valueDeclaration;
+	if (
+		declaration &&
+		ts.isVariableDeclaration(declaration) &&
+		ts.isIdentifier(declaration.name) &&
+		ts.getCombinedNodeFlags(declaration) & ts.NodeFlags.Const
+	) {
+		return declaration.initializer;
+	}
+}
+
+/**
+ * Creates a function which returns the collection an expression refers to, if any.
+ */
+function createCollectionResolver(
+	sourceFile: ts.SourceFile,
+	typeChecker: ts.TypeChecker,
+	parentObjects: string[]
+): (expression: ts.Expression) => string | undefined {
+	// the collections are usually globals declared in an extra lib
+	const collections = new Map<ts.Symbol, string>();
+	for (const symbol of typeChecker.getSymbolsInScope(sourceFile, ts.SymbolFlags.Variable)) {
+		if (parentObjects.indexOf(symbol.name) !== -1) {
+			collections.set(symbol, symbol.name);
+		}
+	}
+
+	const getCollection = (expression: ts.Expression, seen: ts.Symbol[] = []): string | undefined => {
+		expression = skipOuterExpressions(expression);
+		if (!ts.isIdentifier(expression)) {
+			return;
+		}
+		const symbol = typeChecker.getSymbolAtLocation(expression);
+		if (!symbol) {
+			// the collections are not declared before their typings are added, so match their names
+			return parentObjects.indexOf(expression.text) !== -1 ? expression.text : undefined;
+		}
+		if (seen.indexOf(symbol) !== -1) {
+			return;
+		}
+		const collection = collections.get(symbol);
+		if (collection) {
+			return collection;
+		}
+		// matches aliases like `const t = Things`
+		const initializer = getConstantInitializer(symbol);
+		return initializer && getCollection(initializer, seen.concat(symbol));
+	};
+	return (expression) => getCollection(expression);
+}
+
+function getAccessKind(node: ts.Node): EntityReferenceInfo['accessKind'] {
+	let parent = node.parent;
+	while (ts.isParenthesizedExpression(parent) || ts.isNonNullExpression(parent)) {
+		node = parent;
+		parent = node.parent;
+	}
+	if (ts.isCallExpression(parent) && parent.expression === node) {
+		return 'call';
+	}
+	if (
+		ts.isBinaryExpression(parent) &&
+		parent.left === node &&
+		parent.operatorToken.kind >= ts.SyntaxKind.FirstAssignment &&
+		parent.operatorToken.kind <= ts.SyntaxKind.LastAssignment
+	) {
+		return 'write';
+	}
+	if (
+		(ts.isPrefixUnaryExpression(parent) || ts.isPostfixUnaryExpression(parent)) &&
+		(parent.operator === ts.SyntaxKind.PlusPlusToken ||
+			parent.operator === ts.SyntaxKind.MinusMinusToken)
+	) {
+		return 'write';
+	}
+	return 'read';
+}
+
+/**
+ * How well a name matches a symbol search, lower is better: the name equals the search,
+ * starts with it, contains it, or contains its characters in order. Case is ignored.
+ */
+function getSymbolMatch(
+	searchValue: string,
+	name: string
+): { matchKind: ts.NavigateToItem['matchKind']; score: number } | undefined {
+	const search = searchValue.toLowerCase();
+	const candidate = name.toLowerCase();
+	if (candidate === search) {
+		return { matchKind: 'exact', score: 0 };
+	}
+	if (candidate.indexOf(search) === 0) {
+		return { matchKind: 'prefix', score: 1 };
+	}
+	if (candidate.indexOf(search) !== -1) {
+		return { matchKind: 'substring', score: 2 };
+	}
+	// fuzzy: the fewer characters in between, the better
+	let gaps = 0;
+	let index = -1;
+	for (let i = 0; i < search.length; i++) {
+		const next = candidate.indexOf(search[i], index + 1);
+		if (next === -1) {
+			return undefined;
+		}
+		if (index !== -1) {
+			gaps += next - index - 1;
+		}
+		index = next;
+	}
+	return { matchKind: 'camelCase', score: 3 + gaps / candidate.length };
+}
+
+function getEntityNameKind(nameNode: ts.Node): EntityReferenceInfo['nameKind'] {
+	if (ts.isStringLiteralLike(nameNode)) {
+		return 'literal';
+	}
+	const parent = nameNode.parent;
+	if (ts.isIdentifier(nameNode)) {
+		if (ts.isPropertyAccessExpression(parent) && parent.name === nameNode) {
+			return 'name';
+		}
+		if (ts.isBindingElement(parent)) {
+			return parent.propertyName === nameNode ? 'name' : 'shorthand';
+		}
+	}
+	return 'expression';
+}
+
+function combineKeys(...parts: string[][]): string[] {
+	let keys = [''];
+	for (const part of parts) {
+		const combined: string[] = [];
+		for (const key of keys) {
+			for (const suffix of part) {
+				combined.push(key + suffix);
+			}
+		}
+		keys = combined;
+	}
+	return keys;
+}
+
+export interface CodeOutlineToken {
 	name: string;
 	kind: CodeOutlineTokenKind;
 	ordinal: number;
+	/** The zero based line on which the entry starts. */
 	line: number;
+	/** How deeply the entry is nested within other entries. */
 	indentAmount: number;
+	/** The span of the whole declaration, e.g. `Things.Foo.run = () => {}` for the arrow function. */
+	textSpan: ts.TextSpan;
+	/** The span of the name, or of the declaration itself for anonymous entries. */
+	nameSpan: ts.TextSpan;
+	/** The collection object of the entity the entry belongs to, e.g. `Things`. */
+	collection?: string;
+	/** The entity the entry belongs to, e.g. `Foo` for `Things.Foo.run = () => {}`. */
+	entity?: string;
+	children: CodeOutlineToken[];
 }
 
 export enum CodeOutlineTokenKind {
@@ -57,6 +402,12 @@ export class TypeScriptWorker implements ts.LanguageServiceHost, ITypeScriptWork
 	private _extraLibs: IExtraLibs = Object.create(null);
 	private _languageService = ts.createLanguageService(this);
 	private _compilerOptions: ts.CompilerOptions;
+	private _snapshots: { [fileName: string]: ScriptSnapshot } = Object.create(null);
+	private _modelChanges: { [fileName: string]: ModelChange[] } = Object.create(null);
+	private _trackedModels = new WeakSet<worker.IMirrorModel>();
+	private _declarations: {
+		[fileName: string]: { version: string; declarations: SymbolDeclaration[] };
+	} = Object.create(null);
 
 	constructor(ctx: worker.IWorkerContext, createData: ICreateData) {
 		this._ctx = ctx;
@@ -71,12 +422,123 @@ export class TypeScriptWorker implements ts.LanguageServiceHost, ITypeScriptWork
 	}
 
 	getScriptFileNames(): string[] {
-		const allModels = this._ctx.getMirrorModels().map((model) => model.uri);
-		const models = allModels.filter((uri) => !fileNameIsLib(uri)).map((uri) => uri.toString());
-		return models.concat(Object.keys(this._extraLibs));
+		// models of extra libs are provided by the extra libs themselves
+		const allModels = this._ctx
+			.getMirrorModels()
+			.filter((model) => !fileNameIsLib(model.uri) && !(model.uri.toString() in this._extraLibs));
+		allModels.forEach((model) => this._trackModelChanges(model));
+		const fileNames = allModels
+			.map((model) => model.uri.toString())
+			.concat(Object.keys(this._extraLibs));
+		this._evictSnapshots(fileNames);
+		return fileNames;
+	}
+
+	/**
+	 * Records the content changes of a mirror model, which make up the change range
+	 * of its next snapshot.
+	 */
+	private _trackModelChanges(model: worker.IMirrorModel): void {
+		if (this._trackedModels.has(model)) {
+			return;
+		}
+		this._trackedModels.add(model);
+
+		// a model which was created again starts over with its versions
+		const fileName = model.uri.toString();
+		delete this._snapshots[fileName];
+		delete this._modelChanges[fileName];
+		delete this._declarations[fileName];
+
+		const mirrorModel = <IMirrorModelWithEvents>model;
+		const onEvents = mirrorModel.onEvents;
+		if (typeof onEvents !== 'function') {
+			return;
+		}
+		mirrorModel.onEvents = (e: IModelChangedEvent) => {
+			const changes = this._modelChanges[fileName] || (this._modelChanges[fileName] = []);
+			changes.push({
+				versionId: e.versionId,
+				// the changes of an event are applied one after the other
+				changeRanges: e.changes.map((change) =>
+					ts.createTextChangeRange(
+						ts.createTextSpan(change.rangeOffset, change.rangeLength),
+						change.text.length
+					)
+				)
+			});
+			if (changes.length > maxPendingModelChanges) {
+				changes.shift();
+			}
+			onEvents.call(mirrorModel, e);
+		};
+	}
+
+	/**
+	 * Drops the snapshots, changes and declarations of disposed models and removed extra libs.
+	 */
+	private _evictSnapshots(fileNames: string[]): void {
+		const isScript: { [fileName: string]: boolean } = Object.create(null);
+		fileNames.forEach((fileName) => (isScript[fileName] = true));
+		for (const fileName of Object.keys(this._snapshots)) {
+			// default libs are never removed
+			if (!isScript[fileName] && !(fileName in libFileMap)) {
+				delete this._snapshots[fileName];
+			}
+		}
+		for (const fileName of Object.keys(this._modelChanges)) {
+			if (!isScript[fileName]) {
+				delete this._modelChanges[fileName];
+			}
+		}
+		for (const fileName of Object.keys(this._declarations)) {
+			if (!isScript[fileName]) {
+				delete this._declarations[fileName];
+			}
+		}
+	}
+
+	/**
+	 * The range which changed between two versions of a model, if all content changes
+	 * in between were recorded.
+	 */
+	private _getModelChangeRange(
+		fileName: string,
+		oldVersion: string,
+		newVersion: string
+	): ts.TextChangeRange | undefined {
+		const changes = this._modelChanges[fileName];
+		if (!changes) {
+			return;
+		}
+		const from = Number(oldVersion);
+		const to = Number(newVersion);
+		// older changes are already part of the new snapshot
+		this._modelChanges[fileName] = changes.filter((change) => change.versionId > to);
+
+		const changeRanges: ts.TextChangeRange[] = [];
+		let version = from;
+		for (const change of changes) {
+			if (change.versionId <= from || change.versionId > to) {
+				continue;
+			}
+			if (change.versionId !== version + 1) {
+				// a change is missing
+				return;
+			}
+			version = change.versionId;
+			changeRanges.push(...change.changeRanges);
+		}
+		if (version !== to || changeRanges.length === 0) {
+			return;
+		}
+		return ts.collapseTextChangeRangesAcrossMultipleVersions(changeRanges);
 	}
 
 	private _getModel(fileName: string): worker.IMirrorModel | null {
+		if (fileName in this._extraLibs) {
+			return null;
+		}
 		let models = this._ctx.getMirrorModels();
 		for (let i = 0; i < models.length; i++) {
 			if (models[i].uri.toString() === fileName) {
@@ -125,16 +587,29 @@ export class TypeScriptWorker implements ts.LanguageServiceHost, ITypeScriptWork
 	}
 
 	getScriptSnapshot(fileName: string): ts.IScriptSnapshot | undefined {
+		const version = this.getScriptVersion(fileName);
+		const cached = this._snapshots[fileName];
+		if (cached && cached.version === version) {
+			return cached;
+		}
+
 		const text = this._getScriptText(fileName);
 		if (text === undefined) {
+			delete this._snapshots[fileName];
+			delete this._modelChanges[fileName];
 			return;
 		}
 
-		return <ts.IScriptSnapshot>{
-			getText: (start, end) => text.substring(start, end),
-			getLength: () => text.length,
-			getChangeRange: () => undefined
-		};
+		// TS hands the previous snapshot back to `getChangeRange` of the new one,
+		// which allows the incremental parser to only reparse the edited region
+		const changeRange = cached && this._getModelChangeRange(fileName, cached.version, version);
+		const snapshot = new ScriptSnapshot(
+			text,
+			version,
+			cached && changeRange ? { version: cached.version, changeRange } : undefined
+		);
+		this._snapshots[fileName] = snapshot;
+		return snapshot;
 	}
 
 	getScriptKind?(fileName: string): ts.ScriptKind {
@@ -252,27 +727,32 @@ export class TypeScriptWorker implements ts.LanguageServiceHost, ITypeScriptWork
 
 	async getCompletionsAtPosition(
 		fileName: string,
-		position: number
+		position: number,
+		preferences?: ts.GetCompletionsAtPositionOptions
 	): Promise<ts.CompletionInfo | undefined> {
 		if (fileNameIsLib(fileName)) {
 			return undefined;
 		}
-		return this._languageService.getCompletionsAtPosition(fileName, position, undefined);
+		return this._languageService.getCompletionsAtPosition(fileName, position, preferences);
 	}
 
 	async getCompletionEntryDetails(
 		fileName: string,
 		position: number,
-		entry: string
+		entry: string,
+		formatOptions?: ts.FormatCodeSettings,
+		source?: string,
+		preferences?: ts.UserPreferences,
+		data?: ts.CompletionEntryData
 	): Promise<ts.CompletionEntryDetails | undefined> {
 		return this._languageService.getCompletionEntryDetails(
 			fileName,
 			position,
 			entry,
-			undefined,
-			undefined,
-			undefined,
-			undefined
+			formatOptions,
+			source,
+			preferences,
+			data
 		);
 	}
 
@@ -317,6 +797,26 @@ export class TypeScriptWorker implements ts.LanguageServiceHost, ITypeScriptWork
 		return this._languageService.getDefinitionAtPosition(fileName, position);
 	}
 
+	async getTypeDefinitionAtPosition(
+		fileName: string,
+		position: number
+	): Promise<ReadonlyArray<ts.DefinitionInfo> | undefined> {
+		if (fileNameIsLib(fileName)) {
+			return undefined;
+		}
+		return this._languageService.getTypeDefinitionAtPosition(fileName, position);
+	}
+
+	async getImplementationAtPosition(
+		fileName: string,
+		position: number
+	): Promise<ReadonlyArray<ts.ImplementationLocation> | undefined> {
+		if (fileNameIsLib(fileName)) {
+			return undefined;
+		}
+		return this._languageService.getImplementationAtPosition(fileName, position);
+	}
+
 	async getReferencesAtPosition(
 		fileName: string,
 		position: number
@@ -327,6 +827,122 @@ export class TypeScriptWorker implements ts.LanguageServiceHost, ITypeScriptWork
 		return this._languageService.getReferencesAtPosition(fileName, position);
 	}
 
+	async getEncodedSemanticClassifications(
+		fileName: string,
+		start: number,
+		length: number
+	): Promise<ts.Classifications> {
+		if (fileNameIsLib(fileName)) {
+			return { spans: [], endOfLineState: ts.EndOfLineState.None };
+		}
+		return this._languageService.getEncodedSemanticClassifications(
+			fileName,
+			ts.createTextSpan(start, length),
+			ts.SemanticClassificationFormat.TwentyTwenty
+		);
+	}
+
+	async prepareCallHierarchy(
+		fileName: string,
+		position: number
+	): Promise<ts.CallHierarchyItem[] | undefined> {
+		if (fileNameIsLib(fileName)) {
+			return undefined;
+		}
+		const items = this._languageService.prepareCallHierarchy(fileName, position);
+		if (items === undefined || Array.isArray(items)) {
+			return items;
+		}
+		return [items];
+	}
+
+	async provideCallHierarchyIncomingCalls(
+		fileName: string,
+		position: number
+	): Promise<ts.CallHierarchyIncomingCall[]> {
+		if (fileNameIsLib(fileName)) {
+			return [];
+		}
+		return this._languageService.provideCallHierarchyIncomingCalls(fileName, position);
+	}
+
+	async provideCallHierarchyOutgoingCalls(
+		fileName: string,
+		position: number
+	): Promise<ts.CallHierarchyOutgoingCall[]> {
+		if (fileNameIsLib(fileName)) {
+			return [];
+		}
+		return this._languageService.provideCallHierarchyOutgoingCalls(fileName, position);
+	}
+
+	async getNavigateToItems(searchValue: string, maxResults?: number): Promise<ts.NavigateToItem[]> {
+		// TS only matches prefixes, substrings and camel case humps, so the declarations are
+		// collected from the navigation trees of the scripts instead, which also leaves out the
+		// declarations of the default libs that would drown the results of the own code
+		const matches: { item: ts.NavigateToItem; score: number }[] = [];
+		for (const fileName of this.getScriptFileNames()) {
+			if (fileName in libFileMap || this.isDefaultLibFileName(fileName)) {
+				continue;
+			}
+			for (const { tree, container } of this._getSymbolDeclarations(fileName)) {
+				const match = getSymbolMatch(searchValue, tree.text);
+				if (!match) {
+					continue;
+				}
+				matches.push({
+					item: {
+						name: tree.text,
+						kind: tree.kind,
+						kindModifiers: tree.kindModifiers,
+						matchKind: match.matchKind,
+						isCaseSensitive: false,
+						fileName,
+						textSpan: tree.nameSpan || tree.spans[0],
+						containerName: container ? container.text : '',
+						containerKind: container ? container.kind : ts.ScriptElementKind.unknown
+					},
+					score: match.score
+				});
+			}
+		}
+
+		const result = matches
+			.sort(
+				(a, b) =>
+					a.score - b.score ||
+					a.item.name.length - b.item.name.length ||
+					a.item.name.localeCompare(b.item.name)
+			)
+			.map((match) => match.item);
+		return maxResults === undefined ? result : result.slice(0, maxResults);
+	}
+
+	/**
+	 * The named declarations in the navigation tree of a script, which is only
+	 * built again once the script changed.
+	 */
+	private _getSymbolDeclarations(fileName: string): SymbolDeclaration[] {
+		const version = this.getScriptVersion(fileName);
+		const cached = this._declarations[fileName];
+		if (cached && cached.version === version) {
+			return cached.declarations;
+		}
+
+		const declarations: SymbolDeclaration[] = [];
+		const visit = (tree: ts.NavigationTree, container?: ts.NavigationTree) => {
+			if (tree.text[0] !== '<') {
+				declarations.push({ tree, container });
+			}
+			(tree.childItems || []).forEach((child) => visit(child, tree));
+		};
+		// the root is the file itself
+		const root = this._languageService.getNavigationTree(fileName);
+		(root.childItems || []).forEach((child) => visit(child));
+		this._declarations[fileName] = { version, declarations };
+		return declarations;
+	}
+
 	async getNavigationBarItems(fileName: string): Promise<ts.NavigationBarItem[]> {
 		if (fileNameIsLib(fileName)) {
 			return [];
@@ -334,9 +950,161 @@ export class TypeScriptWorker implements ts.LanguageServiceHost, ITypeScriptWork
 		return this._languageService.getNavigationBarItems(fileName);
 	}
 
+	async getNavigationTree(fileName: string): Promise<ts.NavigationTree | undefined> {
+		if (fileNameIsLib(fileName)) {
+			return undefined;
+		}
+		return this._languageService.getNavigationTree(fileName);
+	}
+
+	async getOutliningSpans(fileName: string): Promise<ts.OutliningSpan[]> {
+		if (fileNameIsLib(fileName)) {
+			return [];
+		}
+		return this._languageService.getOutliningSpans(fileName);
+	}
+
+	async getSmartSelectionRange(
+		fileName: string,
+		position: number
+	): Promise<ts.SelectionRange | undefined> {
+		if (fileNameIsLib(fileName)) {
+			return undefined;
+		}
+		return this._languageService.getSmartSelectionRange(fileName, position);
+	}
+
+	async getJsxClosingTagAtPosition(
+		fileName: string,
+		position: number
+	): Promise<ts.JsxClosingTagInfo | undefined> {
+		if (fileNameIsLib(fileName)) {
+			return undefined;
+		}
+		return this._languageService.getJsxClosingTagAtPosition(fileName, position);
+	}
+
+	async getLinkedEditingRangeAtPosition(
+		fileName: string,
+		position: number
+	): Promise<LinkedEditingInfo | undefined> {
+		if (fileNameIsLib(fileName)) {
+			return undefined;
+		}
+		const sourceFile = this._languageService.getProgram()?.getSourceFile(fileName);
+		if (!sourceFile) {
+			return undefined;
+		}
+
+		const isWithin = (node: ts.Node) =>
+			node.getStart(sourceFile) <= position && position <= node.end;
+		const createInfo = (starts: number[], length: number): LinkedEditingInfo => ({
+			ranges: starts.map((start) => ({ start, length })),
+			wordPattern: jsxTagNamePattern
+		});
+
+		const visit = (node: ts.Node): LinkedEditingInfo | undefined => {
+			if (position < node.pos || position > node.end) {
+				return undefined;
+			}
+			if (ts.isJsxElement(node)) {
+				const openingTagName = node.openingElement.tagName;
+				const closingTagName = node.closingElement.tagName;
+				if (
+					(isWithin(openingTagName) || isWithin(closingTagName)) &&
+					openingTagName.getText(sourceFile) === closingTagName.getText(sourceFile)
+				) {
+					return createInfo(
+						[openingTagName.getStart(sourceFile), closingTagName.getStart(sourceFile)],
+						openingTagName.end - openingTagName.getStart(sourceFile)
+					);
+				}
+			}
+			if (ts.isJsxFragment(node)) {
+				// typing a tag name into `<>` or `</>` turns the fragment into an element
+				const starts = [
+					node.openingFragment.getStart(sourceFile) + '<'.length,
+					node.closingFragment.getStart(sourceFile) + '</'.length
+				];
+				if (starts.indexOf(position) !== -1) {
+					return createInfo(starts, 0);
+				}
+			}
+			return ts.forEachChild(node, visit);
+		};
+		return visit(sourceFile);
+	}
+
+	async getDocumentLinks(fileName: string): Promise<DocumentLink[]> {
+		if (fileNameIsLib(fileName)) {
+			return [];
+		}
+		const sourceFile = this._languageService.getProgram()?.getSourceFile(fileName);
+		if (!sourceFile) {
+			return [];
+		}
+
+		const host: ts.ModuleResolutionHost = {
+			fileExists: (name) => this._getScriptText(name) !== undefined,
+			readFile: (name) => this._getScriptText(name)
+		};
+		const links: DocumentLink[] = [];
+
+		for (const reference of sourceFile.referencedFiles) {
+			const target = ts.resolveTripleslashReference(reference.fileName, fileName);
+			if (host.fileExists(target)) {
+				links.push({
+					textSpan: { start: reference.pos, length: reference.end - reference.pos },
+					target
+				});
+			}
+		}
+
+		const addModuleLink = (specifier: ts.Node | undefined) => {
+			if (!specifier || !ts.isStringLiteralLike(specifier)) {
+				return;
+			}
+			const { resolvedModule } = ts.resolveModuleName(
+				specifier.text,
+				fileName,
+				this._compilerOptions,
+				host
+			);
+			if (resolvedModule) {
+				links.push({
+					textSpan: { start: specifier.getStart(sourceFile) + 1, length: specifier.text.length },
+					target: resolvedModule.resolvedFileName
+				});
+			}
+		};
+		const visit = (node: ts.Node): void => {
+			if (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) {
+				addModuleLink(node.moduleSpecifier);
+			} else if (
+				ts.isImportEqualsDeclaration(node) &&
+				ts.isExternalModuleReference(node.moduleReference)
+			) {
+				addModuleLink(node.moduleReference.expression);
+			} else if (ts.isImportTypeNode(node) && ts.isLiteralTypeNode(node.argument)) {
+				addModuleLink(node.argument.literal);
+			} else if (
+				ts.isCallExpression(node) &&
+				node.arguments.length === 1 &&
+				(node.expression.kind === ts.SyntaxKind.ImportKeyword ||
+					(ts.isIdentifier(node.expression) && node.expression.text === 'require'))
+			) {
+				addModuleLink(node.arguments[0]);
+			}
+			ts.forEachChild(node, visit);
+		};
+		visit(sourceFile);
+
+		return links;
+	}
+
 	async getFormattingEditsForDocument(
 		fileName: string,
-		options: ts.FormatCodeOptions
+		options: ts.FormatCodeSettings
 	): Promise<ts.TextChange[]> {
 		if (fileNameIsLib(fileName)) {
 			return [];
@@ -348,7 +1116,7 @@ export class TypeScriptWorker implements ts.LanguageServiceHost, ITypeScriptWork
 		fileName: string,
 		start: number,
 		end: number,
-		options: ts.FormatCodeOptions
+		options: ts.FormatCodeSettings
 	): Promise<ts.TextChange[]> {
 		if (fileNameIsLib(fileName)) {
 			return [];
@@ -360,7 +1128,7 @@ export class TypeScriptWorker implements ts.LanguageServiceHost, ITypeScriptWork
 		fileName: string,
 		postion: number,
 		ch: string,
-		options: ts.FormatCodeOptions
+		options: ts.FormatCodeSettings
 	): Promise<ts.TextChange[]> {
 		if (fileNameIsLib(fileName)) {
 			return [];
@@ -398,6 +1166,22 @@ export class TypeScriptWorker implements ts.LanguageServiceHost, ITypeScriptWork
 		return this._languageService.getRenameInfo(fileName, position, options);
 	}
 
+	async getEditsForFileRename(
+		oldFilePath: string,
+		newFilePath: string,
+		formatOptions: ts.FormatCodeSettings
+	): Promise<readonly ts.FileTextChanges[]> {
+		if (fileNameIsLib(oldFilePath)) {
+			return [];
+		}
+		return this._languageService.getEditsForFileRename(
+			oldFilePath,
+			newFilePath,
+			formatOptions,
+			undefined
+		);
+	}
+
 	async getEmitOutput(fileName: string): Promise<ts.EmitOutput> {
 		if (fileNameIsLib(fileName)) {
 			return { outputFiles: [], emitSkipped: true };
@@ -410,7 +1194,7 @@ export class TypeScriptWorker implements ts.LanguageServiceHost, ITypeScriptWork
 		start: number,
 		end: number,
 		errorCodes: number[],
-		formatOptions: ts.FormatCodeOptions
+		formatOptions: ts.FormatCodeSettings
 	): Promise<ReadonlyArray<ts.CodeFixAction>> {
 		if (fileNameIsLib(fileName)) {
 			return [];
@@ -430,77 +1214,351 @@ export class TypeScriptWorker implements ts.LanguageServiceHost, ITypeScriptWork
 		}
 	}
 
+	async getCombinedCodeFix(
+		fileName: string,
+		fixId: {},
+		formatOptions: ts.FormatCodeSettings
+	): Promise<ts.CombinedCodeActions | undefined> {
+		if (fileNameIsLib(fileName)) {
+			return undefined;
+		}
+		const preferences = {};
+		try {
+			return this._languageService.getCombinedCodeFix(
+				{ type: 'file', fileName },
+				fixId,
+				formatOptions,
+				preferences
+			);
+		} catch {
+			return undefined;
+		}
+	}
+
+	async organizeImports(
+		fileName: string,
+		formatOptions: ts.FormatCodeSettings
+	): Promise<readonly ts.FileTextChanges[]> {
+		if (fileNameIsLib(fileName)) {
+			return [];
+		}
+		return this._languageService.organizeImports(
+			{ type: 'file', fileName },
+			formatOptions,
+			undefined
+		);
+	}
+
+	async getApplicableRefactors(
+		fileName: string,
+		start: number,
+		end: number,
+		triggerReason: ts.RefactorTriggerReason,
+		preferences: ts.UserPreferences
+	): Promise<ts.ApplicableRefactorInfo[]> {
+		if (fileNameIsLib(fileName)) {
+			return [];
+		}
+		try {
+			return this._languageService.getApplicableRefactors(
+				fileName,
+				{ pos: start, end },
+				preferences,
+				triggerReason
+			);
+		} catch {
+			return [];
+		}
+	}
+
+	async getEditsForRefactor(
+		fileName: string,
+		formatOptions: ts.FormatCodeSettings,
+		start: number,
+		end: number,
+		refactorName: string,
+		actionName: string,
+		preferences: ts.UserPreferences
+	): Promise<ts.RefactorEditInfo | undefined> {
+		if (fileNameIsLib(fileName)) {
+			return undefined;
+		}
+		return this._languageService.getEditsForRefactor(
+			fileName,
+			formatOptions,
+			{ pos: start, end },
+			refactorName,
+			actionName,
+			preferences
+		);
+	}
+
 	async updateExtraLibs(extraLibs: IExtraLibs): Promise<void> {
 		this._extraLibs = extraLibs;
 	}
 
 	getPropertiesOrAttributesOf(
 		fileName: string,
-		parentObjects: string[]
+		parentObjects: string[],
+		keyRules: EntityKeyRules = defaultEntityKeyRules
 	): { [name: string]: { [name: string]: boolean } } {
 		let referencedEntities: { [name: string]: { [name: string]: boolean } } = {};
 		parentObjects.forEach(function (key) {
 			referencedEntities[key] = {};
 		});
-		let program = this._languageService.getProgram();
-		if (program) {
-			let currentFile = program.getSourceFile(fileName);
-			if (currentFile) {
-				let typeChecker = program.getTypeChecker();
+		for (const reference of this._findEntityReferences(fileName, parentObjects, keyRules)) {
+			referencedEntities[reference.collection][reference.name] = true;
+		}
+		return referencedEntities;
+	}
 
-				ts.forEachChild(currentFile, function visitNodes(node: ts.Node) {
-					if (
-						ts.isPropertyAccessExpression(node) &&
-						referencedEntities[node.expression.getText()]
-					) {
-						// Matches Things.test
-						if (!(node.name.text in referencedEntities[node.expression.getText()])) {
-							referencedEntities[node.expression.getText()][node.name.text] = true;
-						}
-					} else if (
-						ts.isElementAccessExpression(node) &&
-						referencedEntities[node.expression.getText()] &&
-						node.argumentExpression
-					) {
-						if (node.argumentExpression.kind == ts.SyntaxKind.Identifier) {
-							if (
-								node.expression.getText() == 'Users' &&
-								node.argumentExpression.getText() == 'principal'
-							) {
-								// a special case for Users[principal] => replace principal with "Administrator",
-								// since all users have the same properties and functions
-								referencedEntities['Users']['System'] = true;
-							}
-						}
-						if (node.argumentExpression.kind == ts.SyntaxKind.PropertyAccessExpression) {
-							// matches Things[me.property]
-							let type = typeChecker.getTypeAtLocation(node.argumentExpression);
-							if ('value' in type) {
-								referencedEntities[node.expression.getText()][(type as any)['value']] = true;
-							}
-						} else if (ts.isStringLiteral(node.argumentExpression)) {
-							// matches Things["test"]
-							referencedEntities[node.expression.getText()][
-								node.argumentExpression.getText().slice(1, -1)
-							] = true;
+	getEntityReferences(
+		fileName: string,
+		parentObjects: string[],
+		keyRules: EntityKeyRules = defaultEntityKeyRules
+	): EntityReferenceInfo[] {
+		return this._findEntityReferences(fileName, parentObjects, keyRules).map((reference) => {
+			// the member accessed on the entity, like `Things.Foo.GetData` or `Things.Foo['GetData']`
+			let target = reference.node;
+			let member: string | undefined;
+			const parent = target.parent;
+			if (ts.isPropertyAccessExpression(parent) && parent.expression === target) {
+				member = parent.name.text;
+			} else if (
+				ts.isElementAccessExpression(parent) &&
+				parent.expression === target &&
+				ts.isStringLiteralLike(parent.argumentExpression)
+			) {
+				member = parent.argumentExpression.text;
+			}
+			if (member !== undefined) {
+				target = parent;
+			}
+
+			const start = target.getStart();
+			const nameStart = reference.nameNode.getStart();
+			return {
+				fileName,
+				textSpan: { start, length: target.end - start },
+				nameSpan: { start: nameStart, length: reference.nameNode.end - nameStart },
+				nameKind: getEntityNameKind(reference.nameNode),
+				collection: reference.collection,
+				entity: reference.name,
+				member,
+				memberName: [reference.collection, reference.name, member]
+					.filter((name) => name !== undefined)
+					.join('.'),
+				accessKind: getAccessKind(target)
+			};
+		});
+	}
+
+	getEntityCompletionContext(
+		fileName: string,
+		position: number,
+		parentObjects: string[]
+	): EntityCompletionContext | undefined {
+		const program = this._languageService.getProgram();
+		const sourceFile = program?.getSourceFile(fileName);
+		if (!program || !sourceFile) {
+			return undefined;
+		}
+		const getCollection = createCollectionResolver(
+			sourceFile,
+			program.getTypeChecker(),
+			parentObjects
+		);
+
+		const visit = (node: ts.Node): EntityCompletionContext | undefined => {
+			if (
+				ts.isPropertyAccessExpression(node) &&
+				node.name.getStart(sourceFile) <= position &&
+				position <= node.name.end
+			) {
+				// matches Things.| and Things.Fo|
+				const collection = getCollection(node.expression);
+				const nameStart = node.name.getStart(sourceFile);
+				const dotStart = node.questionDotToken
+					? node.questionDotToken.getStart(sourceFile)
+					: node.expression.end;
+				if (collection) {
+					return {
+						collection,
+						replacementSpan: { start: nameStart, length: node.name.end - nameStart },
+						accessorSpan: { start: dotStart, length: node.name.end - dotStart }
+					};
+				}
+			} else if (
+				ts.isStringLiteralLike(node) &&
+				ts.isElementAccessExpression(node.parent) &&
+				node.parent.argumentExpression === node &&
+				node.getStart(sourceFile) < position
+			) {
+				// matches Things["|"] and Things["Fo|, the closing quote may be missing
+				const collection = getCollection(node.parent.expression);
+				const text = node.getText(sourceFile);
+				const isTerminated = text.length > 1 && text[text.length - 1] === text[0];
+				const start = node.getStart(sourceFile) + 1;
+				const end = isTerminated ? node.end - 1 : node.end;
+				if (collection && position <= end) {
+					return {
+						collection,
+						replacementSpan: { start, length: end - start },
+						quote: text[0]
+					};
+				}
+			}
+			return ts.forEachChild(node, (child) =>
+				child.pos <= position && position <= child.end ? visit(child) : undefined
+			);
+		};
+		return visit(sourceFile);
+	}
+
+	/**
+	 * Finds the accesses of entities through the given collection objects. The collections are
+	 * followed through aliases and destructuring, and the keys are evaluated from literal types
+	 * and constants where possible, with `keyRules` as fallback.
+	 */
+	private _findEntityReferences(
+		fileName: string,
+		parentObjects: string[],
+		keyRules: EntityKeyRules
+	): EntityReference[] {
+		const program = this._languageService.getProgram();
+		const sourceFile = program?.getSourceFile(fileName);
+		if (!program || !sourceFile) {
+			return [];
+		}
+		const typeChecker = program.getTypeChecker();
+		const getCollection = createCollectionResolver(sourceFile, typeChecker, parentObjects);
+
+		const getKeys = (expression: ts.Expression, seen: ts.Symbol[] = []): string[] => {
+			expression = skipOuterExpressions(expression);
+			if (ts.isStringLiteralLike(expression) || ts.isNumericLiteral(expression)) {
+				return [expression.text];
+			}
+			if (ts.isTemplateExpression(expression)) {
+				// matches Things[`${prefix}Thing`]
+				let keys = [expression.head.text];
+				for (const span of expression.templateSpans) {
+					keys = combineKeys(keys, getKeys(span.expression, seen), [span.literal.text]);
+				}
+				return keys;
+			}
+			if (
+				ts.isBinaryExpression(expression) &&
+				expression.operatorToken.kind === ts.SyntaxKind.PlusToken
+			) {
+				return combineKeys(getKeys(expression.left, seen), getKeys(expression.right, seen));
+			}
+
+			// matches string literal types, like Things[me.property] or a `'A' | 'B'` parameter
+			const type = typeChecker.getTypeAtLocation(expression);
+			const types = type.isUnion() ? type.types : [type];
+			if (types.every((t) => t.isStringLiteral() || t.isNumberLiteral())) {
+				return types.map((t) => String((<ts.LiteralType>t).value));
+			}
+
+			// matches constants whose type is widened, like `const name: string = 'Foo'`
+			if (ts.isIdentifier(expression)) {
+				const symbol = typeChecker.getSymbolAtLocation(expression);
+				const initializer = symbol && seen.indexOf(symbol) === -1 && getConstantInitializer(symbol);
+				if (symbol && initializer) {
+					return getKeys(initializer, seen.concat(symbol));
+				}
+			}
+			return [];
+		};
+
+		const resolveKeys = (collection: string, expression: ts.Expression): string[] => {
+			const keys = getKeys(expression);
+			if (keys.length > 0) {
+				return keys;
+			}
+			// keys which can't be evaluated, like Users[principal]
+			const rule = keyRules[collection]?.[expression.getText(sourceFile)];
+			return rule !== undefined ? [rule] : [];
+		};
+
+		const references: EntityReference[] = [];
+		const addReferences = (
+			collection: string,
+			names: string[],
+			node: ts.Node,
+			nameNode: ts.Node
+		) => {
+			for (const name of names) {
+				references.push({ collection, name, node, nameNode });
+			}
+		};
+
+		ts.forEachChild(sourceFile, function visitNodes(node: ts.Node) {
+			if (ts.isPropertyAccessExpression(node)) {
+				// matches Things.test
+				const collection = getCollection(node.expression);
+				if (collection) {
+					addReferences(collection, [node.name.text], node, node.name);
+				}
+			} else if (ts.isElementAccessExpression(node)) {
+				// matches Things["test"]
+				const collection = getCollection(node.expression);
+				if (collection) {
+					const keys = resolveKeys(collection, node.argumentExpression);
+					addReferences(collection, keys, node, node.argumentExpression);
+				}
+			} else if (
+				ts.isVariableDeclaration(node) &&
+				ts.isObjectBindingPattern(node.name) &&
+				node.initializer
+			) {
+				// matches const { test } = Things
+				const collection = getCollection(node.initializer);
+				if (collection) {
+					for (const element of node.name.elements) {
+						const propertyName = element.propertyName || element.name;
+						if (element.dotDotDotToken) {
+							continue;
+						} else if (ts.isComputedPropertyName(propertyName)) {
+							const keys = resolveKeys(collection, propertyName.expression);
+							addReferences(collection, keys, element, propertyName.expression);
+						} else if (
+							ts.isIdentifier(propertyName) ||
+							ts.isStringLiteral(propertyName) ||
+							ts.isNumericLiteral(propertyName)
+						) {
+							addReferences(collection, [propertyName.text], element, propertyName);
 						}
 					}
-					ts.forEachChild(node, visitNodes);
-				});
+				}
 			}
-		}
-		return referencedEntities;
+			ts.forEachChild(node, visitNodes);
+		});
+		return references;
 	}
 
-	getOutline(fileName: string, parentObjects: string[]): CodeOutlineToken[] {
+	getOutline(
+		fileName: string,
+		parentObjects: string[],
+		keyRules: EntityKeyRules = defaultEntityKeyRules
+	): CodeOutlineToken[] {
 		let tokens: CodeOutlineToken[] = [];
 		let program = this._languageService.getProgram();
 		if (program) {
 			let currentFile = program.getSourceFile(fileName);
 			if (currentFile) {
+				let sourceFile = currentFile;
 				let ordinal = 0;
 				let indentation = 0;
 
+				// the entity references by their access expressions, to find the entities assigned to
+				const entityReferences = new Map<ts.Node, EntityReference>();
+				for (const reference of this._findEntityReferences(fileName, parentObjects, keyRules)) {
+					if (!entityReferences.has(reference.node)) {
+						entityReferences.set(reference.node, reference);
+					}
+				}
+
 				const getEscapedTextOfIdentifierOrLiteral = function (node?: {
 					kind: ts.SyntaxKind;
 					escapedText?: ts.__String;
@@ -513,267 +1571,261 @@ export class TypeScriptWorker implements ts.LanguageServiceHost, ITypeScriptWork
 					}
 				};
 
-				const extractLiteral = (liternalNode: ts.ObjectLiteralExpression) => {
-					let didExtractLiteral = false;
+				const getLastLine = function (node: ts.Node): string {
+					let nameTokens = node.getFullText().trim().split('\n');
+					return nameTokens[nameTokens.length - 1].trim();
+				};
 
-					// Object literals should only be extracted if they have at least a method or any getter/setter
-					let methodCount = 0;
-					liternalNode.properties.forEach((property) => {
-						switch (property.kind) {
-							case ts.SyntaxKind.MethodDeclaration:
-								methodCount++;
-								break;
-							case ts.SyntaxKind.GetAccessor:
-							case ts.SyntaxKind.SetAccessor:
-								didExtractLiteral = true;
-								break;
-							case ts.SyntaxKind.PropertyAssignment:
-								if (
-									property.initializer &&
-									(property.initializer.kind == ts.SyntaxKind.FunctionDeclaration ||
-										property.initializer.kind == ts.SyntaxKind.FunctionExpression)
-								) {
-									methodCount++;
-								}
-						}
-					});
+				const getSpan = function (node: ts.Node): ts.TextSpan {
+					const start = node.getStart(sourceFile);
+					return { start, length: node.getEnd() - start };
+				};
 
-					if (methodCount > 0) {
-						didExtractLiteral = true;
+				/**
+				 * Compute the name for assignments, call expressions and others. The declaration
+				 * spans the whole assignment, e.g. `Things.Foo.run = () => {}` for the arrow function.
+				 */
+				const getAssignedName = function (
+					node: ts.Node
+				): { name: string; nameNode?: ts.Node; declaration: ts.Node } {
+					let parentNode = node.parent;
+					if (
+						ts.isVariableDeclaration(parentNode) ||
+						ts.isPropertyAssignment(parentNode) ||
+						ts.isPropertyDeclaration(parentNode)
+					) {
+						return {
+							name: getEscapedTextOfIdentifierOrLiteral(parentNode.name) || '',
+							nameNode: parentNode.name,
+							declaration: parentNode
+						};
+					} else if (ts.isCallExpression(parentNode)) {
+						let expression = parentNode.expression;
+						return {
+							name: expression ? getLastLine(expression) + '()' : '',
+							nameNode: expression,
+							declaration: parentNode
+						};
+					} else if (
+						ts.isBinaryExpression(parentNode) &&
+						parentNode.right === node &&
+						// Only handle these for assignments
+						parentNode.operatorToken.kind === ts.SyntaxKind.EqualsToken
+					) {
+						let left = parentNode.left;
+						if (ts.isPropertyAccessExpression(left) || ts.isElementAccessExpression(left)) {
+							return { name: getLastLine(left), nameNode: left, declaration: parentNode };
+						}
 					}
+					return { name: '', declaration: node };
+				};
 
-					if (didExtractLiteral) {
-						ordinal++;
-						let parentNode = liternalNode.parent;
-
-						// Compute the name for assignments, call expressions and others
-						let name = '';
-						if (
-							parentNode.kind == ts.SyntaxKind.VariableDeclaration ||
-							parentNode.kind == ts.SyntaxKind.PropertyAssignment
-						) {
-							let parentNodeAsVariableDeclaration = parentNode as ts.Node & {
-								name: ts.PropertyName;
-							};
-							name =
-								getEscapedTextOfIdentifierOrLiteral(parentNodeAsVariableDeclaration.name) || '';
-						} else if (parentNode.kind == ts.SyntaxKind.CallExpression) {
-							let parentNodeAsCallExpression = parentNode as ts.CallExpression;
-							name =
-								(parentNodeAsCallExpression.expression &&
-									parentNodeAsCallExpression.expression.getFullText().trim()) ||
-								'';
-							if (name) {
-								let nameTokens = name.split('\n');
-								name = nameTokens[nameTokens.length - 1];
-								name = name + '()';
-							}
-						} else if (parentNode.kind == ts.SyntaxKind.BinaryExpression) {
-							let parentNodeAsBinaryExpression = parentNode as ts.BinaryExpression;
-							// Only handle these for assignments
-							let sign: ts.BinaryOperatorToken = parentNodeAsBinaryExpression.operatorToken;
-							if (ts.tokenToString(sign.kind) == '=') {
-								let left = parentNodeAsBinaryExpression.left;
-								let nameTokens;
-								switch (left.kind) {
-									case ts.SyntaxKind.VariableDeclaration:
-										let leftVariableDeclaration = (left as unknown) as ts.VariableDeclaration;
-										name = getEscapedTextOfIdentifierOrLiteral(leftVariableDeclaration.name) || '';
-										break;
-									case ts.SyntaxKind.PropertyAccessExpression:
-										name = left.getFullText().trim();
-										nameTokens = name.split('\n');
-										name = nameTokens[nameTokens.length - 1];
-										break;
-								}
-							}
+				const getEntityReference = function (
+					expression: ts.Node | undefined
+				): EntityReference | undefined {
+					while (expression) {
+						expression = skipOuterExpressions(expression as ts.Expression);
+						const reference = entityReferences.get(expression);
+						if (reference) {
+							return reference;
 						}
+						expression =
+							ts.isPropertyAccessExpression(expression) ||
+							ts.isElementAccessExpression(expression) ||
+							ts.isCallExpression(expression)
+								? expression.expression
+								: undefined;
+					}
+				};
 
-						tokens.push({
-							name: name || '{}',
-							kind: CodeOutlineTokenKind.ObjectLiteral,
-							ordinal: ordinal,
-							line: currentFile?.getLineAndCharacterOfPosition(liternalNode.getStart()).line || 0,
-							indentAmount: indentation
-						});
+				const createToken = function (
+					name: string,
+					kind: CodeOutlineTokenKind,
+					node: ts.Node,
+					assignedName?: { nameNode?: ts.Node; declaration: ts.Node },
+					nameNode?: ts.Node
+				): CodeOutlineToken {
+					ordinal++;
+					const declaration = assignedName ? assignedName.declaration : node;
+					nameNode = nameNode || (assignedName && assignedName.nameNode);
+					const token: CodeOutlineToken = {
+						name,
+						kind,
+						ordinal,
+						line: sourceFile.getLineAndCharacterOfPosition(node.getStart()).line,
+						indentAmount: indentation,
+						textSpan: getSpan(declaration),
+						nameSpan: getSpan(nameNode || declaration),
+						children: []
+					};
+					const reference = getEntityReference(assignedName && assignedName.nameNode);
+					if (reference) {
+						token.collection = reference.collection;
+						token.entity = reference.name;
 					}
+					return token;
+				};
 
-					return didExtractLiteral;
+				const isFunctionInitializer = function (node: ts.Node): boolean {
+					return (
+						ts.isFunctionExpression(node) ||
+						ts.isArrowFunction(node) ||
+						ts.isFunctionDeclaration(node)
+					);
 				};
 
-				const extractClass = function (classNode: ts.ClassDeclaration) {
-					ordinal++;
-					if (classNode.name) {
-						tokens.push({
-							name: getEscapedTextOfIdentifierOrLiteral(classNode.name) || '',
-							kind: CodeOutlineTokenKind.Class,
-							ordinal: ordinal,
-							line: currentFile?.getLineAndCharacterOfPosition(classNode.getStart()).line || 0,
-							indentAmount: indentation
-						});
-					} else {
-						tokens.push({
-							name: '{}',
-							kind: CodeOutlineTokenKind.Class,
-							ordinal: ordinal,
-							line: currentFile?.getLineAndCharacterOfPosition(classNode.getStart()).line || 0,
-							indentAmount: indentation
-						});
+				const extractLiteral = (
+					liternalNode: ts.ObjectLiteralExpression
+				): CodeOutlineToken | undefined => {
+					// Object literals should only be extracted if they have at least a method or any getter/setter
+					const hasMethods = liternalNode.properties.some(
+						(property) =>
+							ts.isMethodDeclaration(property) ||
+							ts.isGetAccessor(property) ||
+							ts.isSetAccessor(property) ||
+							(ts.isPropertyAssignment(property) && isFunctionInitializer(property.initializer))
+					);
+
+					if (hasMethods) {
+						const assignedName = getAssignedName(liternalNode);
+						return createToken(
+							assignedName.name || '{}',
+							CodeOutlineTokenKind.ObjectLiteral,
+							liternalNode,
+							assignedName
+						);
 					}
 				};
 
-				const extractMethod = function (methodNode: ts.FunctionLikeDeclaration) {
-					ordinal++;
+				const extractClass = function (
+					classNode: ts.ClassLikeDeclaration
+				): CodeOutlineToken | undefined {
+					const assignedName = getAssignedName(classNode);
+					return createToken(
+						getEscapedTextOfIdentifierOrLiteral(classNode.name) || assignedName.name || '{}',
+						CodeOutlineTokenKind.Class,
+						classNode,
+						classNode.name ? undefined : assignedName,
+						classNode.name
+					);
+				};
+
+				const extractMethod = function (
+					methodNode: ts.FunctionLikeDeclaration
+				): CodeOutlineToken | undefined {
 					let node = methodNode;
-					let line = currentFile?.getLineAndCharacterOfPosition(methodNode.getStart()).line || 0;
-
-					let parentNode = methodNode.parent;
-					// isMethodKind is set to YES for function declarations whose parent is a property assignment
-					let isMethodKind = false;
-
-					// Compute the name for assignments
-					let name = '';
-					if (parentNode.kind == ts.SyntaxKind.PropertyAssignment) {
-						let parentNodeAsPropertyAssignment = parentNode as ts.PropertyAssignment;
-						name = getEscapedTextOfIdentifierOrLiteral(parentNodeAsPropertyAssignment.name) || '';
-						isMethodKind = true;
-					} else if (parentNode.kind == ts.SyntaxKind.VariableDeclaration) {
-						let parentNodeAsVariableDeclaration = parentNode as ts.VariableDeclaration;
-						name = getEscapedTextOfIdentifierOrLiteral(parentNodeAsVariableDeclaration.name) || '';
-					} else if (parentNode.kind == ts.SyntaxKind.CallExpression) {
-						let parentNodeAsCallExpression = parentNode as ts.CallExpression;
-						name =
-							(parentNodeAsCallExpression.expression &&
-								parentNodeAsCallExpression.expression.getFullText().trim()) ||
-							'';
-						if (name) {
-							let nameTokens = name.split('\n');
-							name = nameTokens[nameTokens.length - 1].trim();
-							name = name + '()';
-						}
-					} else if (parentNode.kind == ts.SyntaxKind.BinaryExpression) {
-						// Only handle these for assignments
-						let parentNodeAsBinaryExpression = parentNode as ts.BinaryExpression;
-						let sign = parentNodeAsBinaryExpression.operatorToken;
-						if (ts.tokenToString(sign.kind) == '=') {
-							let left = parentNodeAsBinaryExpression.left;
-							let nameTokens;
-							switch (left.kind) {
-								case ts.SyntaxKind.VariableDeclaration:
-									let leftAsVariableDeclaration = (left as unknown) as ts.VariableDeclaration;
-									name = getEscapedTextOfIdentifierOrLiteral(leftAsVariableDeclaration.name) || '';
-									break;
-								case ts.SyntaxKind.PropertyAccessExpression:
-									name = left.getFullText().trim();
-									nameTokens = name.split('\n');
-									name = nameTokens[nameTokens.length - 1].trim();
-									break;
-							}
-						}
-					}
+					let assignedName = getAssignedName(methodNode);
+					let name = assignedName.name;
+
+					// isMethodKind is set to YES for functions whose parent is a property assignment or declaration
+					let isMethodKind =
+						ts.isPropertyAssignment(methodNode.parent) ||
+						ts.isPropertyDeclaration(methodNode.parent);
 
 					switch (methodNode.kind) {
 						case ts.SyntaxKind.Constructor:
-							tokens.push({
-								name: 'constructor ()',
-								kind: CodeOutlineTokenKind.Constructor,
-								ordinal: ordinal,
-								line: line,
-								indentAmount: indentation
-							});
-							break;
+							return createToken('constructor ()', CodeOutlineTokenKind.Constructor, node);
 						case ts.SyntaxKind.MethodDeclaration:
-							let nodeAsMethodDeclaration = node as ts.MethodDeclaration;
-							tokens.push({
-								name: getEscapedTextOfIdentifierOrLiteral(nodeAsMethodDeclaration.name) || '{}',
-								kind: CodeOutlineTokenKind.Method,
-								ordinal: ordinal,
-								line: line,
-								indentAmount: indentation
-							});
-							break;
+							return createToken(
+								getEscapedTextOfIdentifierOrLiteral(node.name) || '{}',
+								CodeOutlineTokenKind.Method,
+								node,
+								undefined,
+								node.name
+							);
 						case ts.SyntaxKind.FunctionExpression:
 						case ts.SyntaxKind.FunctionDeclaration:
-							let nodeAsFunctionDeclaration = node as ts.FunctionExpression;
-							tokens.push({
-								name:
-									getEscapedTextOfIdentifierOrLiteral(nodeAsFunctionDeclaration.name) ||
-									name ||
-									'{}',
-								kind: isMethodKind ? CodeOutlineTokenKind.Method : CodeOutlineTokenKind.Function,
-								ordinal: ordinal,
-								line: line,
-								indentAmount: indentation
-							});
-							break;
+							if (node.name) {
+								return createToken(
+									getEscapedTextOfIdentifierOrLiteral(node.name) || '{}',
+									isMethodKind ? CodeOutlineTokenKind.Method : CodeOutlineTokenKind.Function,
+									node,
+									assignedName,
+									node.name
+								);
+							}
+							return createToken(
+								name || '{}',
+								isMethodKind ? CodeOutlineTokenKind.Method : CodeOutlineTokenKind.Function,
+								node,
+								assignedName
+							);
 						case ts.SyntaxKind.GetAccessor:
-							tokens.push({
-								name: getEscapedTextOfIdentifierOrLiteral(node.name) || '()',
-								kind: CodeOutlineTokenKind.Get,
-								ordinal: ordinal,
-								line: line,
-								indentAmount: indentation
-							});
-							break;
+							return createToken(
+								getEscapedTextOfIdentifierOrLiteral(node.name) || '()',
+								CodeOutlineTokenKind.Get,
+								node,
+								undefined,
+								node.name
+							);
 						case ts.SyntaxKind.SetAccessor:
-							tokens.push({
-								name: getEscapedTextOfIdentifierOrLiteral(node.name) || '()',
-								kind: CodeOutlineTokenKind.Set,
-								ordinal: ordinal,
-								line: line,
-								indentAmount: indentation
-							});
-							break;
+							return createToken(
+								getEscapedTextOfIdentifierOrLiteral(node.name) || '()',
+								CodeOutlineTokenKind.Set,
+								node,
+								undefined,
+								node.name
+							);
 						case ts.SyntaxKind.ArrowFunction:
-							tokens.push({
-								name: getEscapedTextOfIdentifierOrLiteral(node.name) || name || '() => {}',
-								kind: CodeOutlineTokenKind.Function,
-								ordinal: ordinal,
-								line: line,
-								indentAmount: indentation
-							});
-							break;
+							return createToken(
+								name || '() => {}',
+								isMethodKind ? CodeOutlineTokenKind.Method : CodeOutlineTokenKind.Function,
+								node,
+								assignedName
+							);
 						default:
-							break;
+							return undefined;
 					}
 				};
 
-				const buildOutline = function (node: ts.Node): void {
-					let didIndent = false;
+				const buildOutline = function (node: ts.Node, parentTokens: CodeOutlineToken[]): void {
+					let token: CodeOutlineToken | undefined;
 					switch (node.kind) {
 						case ts.SyntaxKind.ObjectLiteralExpression:
-							if (extractLiteral(node as ts.ObjectLiteralExpression)) {
-								indentation += 1;
-								didIndent = true;
-							}
+							token = extractLiteral(node as ts.ObjectLiteralExpression);
 							break;
 						case ts.SyntaxKind.ClassExpression:
 						case ts.SyntaxKind.ClassDeclaration:
-							extractClass(node as ts.ClassDeclaration);
-							indentation += 1;
-							didIndent = true;
+							token = extractClass(node as ts.ClassLikeDeclaration);
 							break;
 						case ts.SyntaxKind.MethodDeclaration:
-						case ts.SyntaxKind.MethodSignature:
 						case ts.SyntaxKind.FunctionDeclaration:
 						case ts.SyntaxKind.FunctionExpression:
 						case ts.SyntaxKind.GetAccessor:
 						case ts.SyntaxKind.SetAccessor:
 						case ts.SyntaxKind.Constructor:
 						case ts.SyntaxKind.ArrowFunction:
-							extractMethod(node as ts.FunctionLikeDeclaration);
-							indentation += 1;
-							didIndent = true;
+							token = extractMethod(node as ts.FunctionLikeDeclaration);
 							break;
 						default:
 							break;
 					}
 
-					ts.forEachChild(node, buildOutline);
-					if (didIndent) indentation -= 1;
+					if (token) {
+						parentTokens.push(token);
+						indentation += 1;
+						ts.forEachChild(node, (child) => buildOutline(child, token!.children));
+						indentation -= 1;
+						// entries nested within the entry of an entity belong to that entity as well
+						if (token.collection !== undefined) {
+							inheritEntity(token);
+						}
+					} else {
+						ts.forEachChild(node, (child) => buildOutline(child, parentTokens));
+					}
+				};
+
+				const inheritEntity = function (token: CodeOutlineToken): void {
+					for (const child of token.children) {
+						if (child.collection === undefined) {
+							child.collection = token.collection;
+							child.entity = token.entity;
+						}
+						inheritEntity(child);
+					}
 				};
 
-				buildOutline(currentFile);
+				buildOutline(currentFile, tokens);
 			}
 		}
 		return tokens;
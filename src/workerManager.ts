@@ -12,6 +12,7 @@ export class WorkerManager {
 	private _modeId: string;
 	private _defaults: LanguageServiceDefaults;
 	private _configChangeListener: IDisposable;
+	private _workerConfig: string;
 	private _updateExtraLibsToken: number;
 	private _extraLibsChangeListener: IDisposable;
 
@@ -23,13 +24,29 @@ export class WorkerManager {
 		this._defaults = defaults;
 		this._worker = null;
 		this._client = null;
-		this._configChangeListener = this._defaults.onDidChange(() => this._stopWorker());
+		this._workerConfig = this._getWorkerConfig();
+		this._configChangeListener = this._defaults.onDidChange(() => {
+			// the other options are only used on the main thread, and the worker keeps its state for them
+			const workerConfig = this._getWorkerConfig();
+			if (workerConfig !== this._workerConfig) {
+				this._workerConfig = workerConfig;
+				this._stopWorker();
+			}
+		});
 		this._updateExtraLibsToken = 0;
 		this._extraLibsChangeListener = this._defaults.onDidExtraLibsChange(() =>
 			this._updateExtraLibs()
 		);
 	}
 
+	/**
+	 * The options the worker is created with. They are compared by value, since the
+	 * options objects may be changed and set again.
+	 */
+	private _getWorkerConfig(): string {
+		return JSON.stringify([this._defaults.getCompilerOptions(), this._defaults.workerOptions]);
+	}
+
 	private _stopWorker(): void {
 		if (this._worker) {
 			this._worker.dispose();
@@ -85,6 +102,7 @@ export class WorkerManager {
 								.getModels()
 								.filter((model) => model.getModeId() === this._modeId)
 								.map((model) => model.uri)
+								.filter((uri) => !this._isExtraLib(uri))
 						);
 					}
 					return worker;
@@ -97,6 +115,15 @@ export class WorkerManager {
 		return this._client;
 	}
 
+	private _isExtraLib(uri: Uri): boolean {
+		const extraLibs = this._defaults.getExtraLibs();
+		const uriString = uri.toString();
+		// the file path of an extra lib is not necessarily a normalized uri
+		return Object.keys(extraLibs).some(
+			(filePath) => filePath === uriString || Uri.parse(filePath).toString() === uriString
+		);
+	}
+
 	getLanguageServiceWorker(...resources: Uri[]): Promise<TypeScriptWorker> {
 		let _client: TypeScriptWorker;
 		return this._getClient()
@@ -105,7 +132,10 @@ export class WorkerManager {
 			})
 			.then((_) => {
 				if (this._worker) {
-					return this._worker.withSyncedResources(resources);
+					// the worker already has the extra libs, so their models are not synced
+					return this._worker.withSyncedResources(
+						resources.filter((uri) => !this._isExtraLib(uri))
+					);
 				}
 			})
 			.then((_) => _client);
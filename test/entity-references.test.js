@@ -0,0 +1,54 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+// Runs the compiled worker in node. Run `npm run compile` first.
+
+const assert = require('assert');
+const path = require('path');
+const { test } = require('node:test');
+const requirejs = require('requirejs');
+const ts = require('typescript');
+
+requirejs.config({ baseUrl: path.join(__dirname, '../out/amd'), nodeRequire: require });
+// the worker is compiled against the bundled services, which are API compatible
+requirejs.define('lib/typescriptServices', [], () => ts);
+const { TypeScriptWorker } = requirejs('tsWorker');
+
+const collections = ['Things', 'Users'];
+
+function createWorker(text) {
+	const model = {
+		uri: { path: '/script.ts', toString: () => 'file:///script.ts' },
+		version: 1,
+		getValue: () => text
+	};
+	const ctx = { getMirrorModels: () => [model], host: {} };
+	return new TypeScriptWorker(ctx, { compilerOptions: { noLib: true }, extraLibs: {} });
+}
+
+const script = ['Users[principal].GetData();', 'Things.Foo.run();'].join('\n');
+
+test('Users[principal] resolves to System', () => {
+	const worker = createWorker(
+		[
+			'declare const Things: { [name: string]: any };',
+			'declare const Users: { [name: string]: any };',
+			'declare const principal: string;',
+			script
+		].join('\n')
+	);
+	assert.deepStrictEqual(worker.getPropertiesOrAttributesOf('file:///script.ts', collections), {
+		Things: { Foo: true },
+		Users: { System: true }
+	});
+});
+
+test('undeclared collections are matched by their names', () => {
+	const worker = createWorker(script);
+	assert.deepStrictEqual(worker.getPropertiesOrAttributesOf('file:///script.ts', collections), {
+		Things: { Foo: true },
+		Users: { System: true }
+	});
+});
@@ -0,0 +1,115 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+// Measures how long the worker takes to bring its program up to date after a keystroke
+// in a large script, with change ranges taken from the model's content changes compared
+// to a full reparse. Run `npm run compile` first, then `npm run benchmark`.
+
+const path = require('path');
+const requirejs = require('requirejs');
+const ts = require('typescript');
+
+const lineCount = 6000;
+const editCount = 200;
+
+requirejs.config({ baseUrl: path.join(__dirname, '../out/amd'), nodeRequire: require });
+// the worker is compiled against the bundled services, which are API compatible
+requirejs.define('lib/typescriptServices', [], () => ts);
+const { TypeScriptWorker } = requirejs('tsWorker');
+
+/**
+ * Applies content changes like `MirrorTextModel` in monaco-editor-core.
+ */
+class MirrorModel {
+	constructor(uri, text) {
+		this.uri = { path: uri.substr('file://'.length), toString: () => uri };
+		this.version = 1;
+		this._text = text;
+	}
+
+	getValue() {
+		return this._text;
+	}
+
+	onEvents(e) {
+		for (const change of e.changes) {
+			this._text =
+				this._text.substr(0, change.rangeOffset) +
+				change.text +
+				this._text.substr(change.rangeOffset + change.rangeLength);
+		}
+		this.version = e.versionId;
+	}
+}
+
+/**
+ * A worker which hides the change ranges from TS, like the worker did before.
+ */
+class FullReparseWorker extends TypeScriptWorker {
+	getScriptSnapshot(fileName) {
+		const snapshot = super.getScriptSnapshot(fileName);
+		return snapshot && ts.ScriptSnapshot.fromString(snapshot.getText(0, snapshot.getLength()));
+	}
+}
+
+function createScript() {
+	const lines = [];
+	for (let i = 0; i < lineCount / 7; i++) {
+		lines.push(
+			`export function service${i}(input: { name: string; count: number }): string {`,
+			`\tconst result = Things['Thing${i}'].GetPropertyValues({ name: input.name });`,
+			`\tif (result.rows.length > input.count) {`,
+			`\t\treturn result.rows[0].name + ${i};`,
+			`\t}`,
+			`\treturn '';`,
+			'}'
+		);
+	}
+	// the edits are made within the last function, so that nothing else is affected
+	lines.push('function edited() {', '\tlet value = "";', '}');
+	return lines.join('\n');
+}
+
+async function run(WorkerClass) {
+	const fileName = 'file:///service.ts';
+	const model = new MirrorModel(fileName, createScript());
+	const ctx = { getMirrorModels: () => [model], host: {} };
+	const worker = new WorkerClass(ctx, { compilerOptions: { noLib: true }, extraLibs: {} });
+
+	// the initial parse
+	await worker.getSyntacticDiagnostics(fileName);
+
+	const insertAt = model.getValue().lastIndexOf('"');
+	const start = process.hrtime.bigint();
+	for (let i = 0; i < editCount; i++) {
+		model.onEvents({
+			changes: [{ rangeOffset: insertAt + i, rangeLength: 0, text: 'x' }],
+			versionId: model.version + 1
+		});
+		const diagnostics = await worker.getSyntacticDiagnostics(fileName);
+		if (diagnostics.length > 0) {
+			throw new Error(`Unexpected syntax error after edit ${i}: ${diagnostics[0].messageText}`);
+		}
+	}
+	const elapsed = Number(process.hrtime.bigint() - start) / 1e6;
+
+	const sourceFile = worker._languageService.getProgram().getSourceFile(fileName);
+	if (sourceFile.text !== model.getValue()) {
+		throw new Error('The parsed source file is out of sync with the model');
+	}
+	return elapsed;
+}
+
+(async () => {
+	const full = await run(FullReparseWorker);
+	const incremental = await run(TypeScriptWorker);
+	const format = (ms) => `${ms.toFixed(0)}ms total, ${(ms / editCount).toFixed(2)}ms per edit`;
+	console.log(`${lineCount} lines, ${editCount} single character edits`);
+	console.log(`full reparse: ${format(full)}`);
+	console.log(`incremental:  ${format(incremental)}`);
+})().catch((err) => {
+	console.error(err);
+	process.exit(1);
+});
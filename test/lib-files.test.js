@@ -0,0 +1,119 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+// Runs the editor together with the compiled mode in jsdom. Run `npm run compile` first.
+
+const assert = require('assert');
+const path = require('path');
+const { after, before, test } = require('node:test');
+const { JSDOM, VirtualConsole } = require('jsdom');
+
+const REPO_ROOT = path.join(__dirname, '../');
+
+/**
+ * Loads the editor and the contribution of this repo into a jsdom window. The mode itself
+ * is only loaded once the first TypeScript model is created, like in the browser.
+ */
+function loadEditor() {
+	const dom = new JSDOM(
+		'<!DOCTYPE html><div id="container" style="width: 800px; height: 600px"></div>',
+		{
+			url: 'file://' + path.join(REPO_ROOT, 'test/index.html'),
+			runScripts: 'dangerously',
+			resources: 'usable',
+			pretendToBeVisual: true,
+			// the rendering of the editor is not supported by jsdom, so errors about it are dropped
+			virtualConsole: new VirtualConsole()
+		}
+	);
+	const window = dom.window;
+
+	// the browser APIs which the editor needs but jsdom does not implement
+	window.document.queryCommandSupported = () => false;
+	window.matchMedia = () => ({ matches: false, addListener() {}, removeListener() {} });
+	window.HTMLCanvasElement.prototype.getContext = () => ({
+		measureText: (text) => ({ width: text.length * 7 })
+	});
+
+	window.require = {
+		paths: {
+			'vs/language/typescript/fillers/monaco-editor-core': path.join(
+				REPO_ROOT,
+				'out/amd/fillers/monaco-editor-core-amd'
+			),
+			'vs/language/typescript': path.join(REPO_ROOT, 'out/amd'),
+			vs: path.join(REPO_ROOT, 'node_modules/monaco-editor-core/dev/vs')
+		}
+	};
+
+	return new Promise((resolve, reject) => {
+		const loader = window.document.createElement('script');
+		loader.src =
+			'file://' + path.join(REPO_ROOT, 'node_modules/monaco-editor-core/dev/vs/loader.js');
+		loader.onload = () => {
+			// the contribution reads the global API, which is only defined once the editor loaded
+			window.require(
+				['vs/editor/editor.main'],
+				() => {
+					window.require(
+						['vs/language/typescript/monaco.contribution'],
+						() => resolve(dom),
+						reject
+					);
+				},
+				reject
+			);
+		};
+		window.document.head.appendChild(loader);
+	});
+}
+
+let dom;
+let monaco;
+
+before(async () => {
+	dom = await loadEditor();
+	monaco = dom.window.monaco;
+	// registered by monaco-languages in the editor bundle
+	monaco.languages.register({ id: 'typescript', extensions: ['.ts'] });
+});
+
+after(() => {
+	dom.window.close();
+});
+
+test('extra libs are read-only in an editor created before the mode loaded', async () => {
+	const extraLib = 'declare function greet(name: string): void;';
+	monaco.languages.typescript.typescriptDefaults.addExtraLib(extraLib, 'file:///greet.d.ts');
+
+	const codeEditor = monaco.editor.create(dom.window.document.getElementById('container'));
+	const model = monaco.editor.createModel(
+		'greet("world");',
+		'typescript',
+		monaco.Uri.parse('file:///main.ts')
+	);
+	codeEditor.setModel(model);
+	// creating the model loads the mode, and validating it the worker
+	const getWorker = await monaco.languages.typescript.getTypeScriptWorker();
+	await getWorker(model.uri);
+
+	const { readOnly } = monaco.editor.EditorOption;
+	assert.strictEqual(codeEditor.getOption(readOnly), false);
+
+	const extraLibModel = monaco.editor.createModel(
+		extraLib,
+		'typescript',
+		monaco.Uri.parse('file:///greet.d.ts')
+	);
+	codeEditor.setModel(extraLibModel);
+	assert.strictEqual(codeEditor.getOption(readOnly), true);
+
+	codeEditor.setModel(model);
+	assert.strictEqual(codeEditor.getOption(readOnly), false);
+
+	codeEditor.dispose();
+	extraLibModel.dispose();
+	model.dispose();
+});